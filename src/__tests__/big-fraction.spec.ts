@@ -0,0 +1,89 @@
+import {describe, it, expect} from 'vitest';
+import {Fraction} from 'xen-dev-utils';
+
+import {
+  BigFraction,
+  divResiduals,
+  mulResiduals,
+  powResidual,
+} from '../big-fraction';
+
+describe('Big fraction', () => {
+  it('is constructed in lowest terms', () => {
+    const result = new BigFraction(BigInt(6), BigInt(-4));
+    expect(result.n).toBe(BigInt(-3));
+    expect(result.d).toBe(BigInt(2));
+    expect(result.toString()).toBe('-3/2');
+  });
+
+  it('can be converted from and to regular fractions', () => {
+    const result = BigFraction.from(new Fraction(-5, 3));
+    expect(result.toString()).toBe('-5/3');
+    expect(result.toFraction().equals(new Fraction(-5, 3))).toBeTruthy();
+    expect(BigFraction.from('7/4').equals(new Fraction(7, 4))).toBeTruthy();
+  });
+
+  it('refuses to convert unsafe values to regular fractions', () => {
+    const result = new BigFraction(BigInt(2) ** BigInt(60));
+    expect(result.isSafe()).toBeFalsy();
+    expect(() => result.toFraction()).toThrow();
+  });
+
+  it('supports arithmetic', () => {
+    const a = BigFraction.from(new Fraction(3, 2));
+    const b = BigFraction.from(new Fraction(5, 4));
+    expect(a.mul(b).toString()).toBe('15/8');
+    expect(a.div(b).toString()).toBe('6/5');
+    expect(a.inverse().toString()).toBe('2/3');
+    expect(a.neg().toString()).toBe('-3/2');
+    expect(a.compare(b)).toBe(1);
+    expect(b.compare(a)).toBe(-1);
+    expect(a.compare(new Fraction(3, 2))).toBe(0);
+  });
+
+  it('calculates exact powers and roots', () => {
+    const base = new BigFraction(
+      BigInt(13) ** BigInt(40),
+      BigInt(7) ** BigInt(40)
+    );
+    expect(base.pow(new Fraction(-1, 20))!.toString()).toBe('49/169');
+    expect(base.pow(new Fraction(1, 3))).toBeNull();
+    expect(
+      new BigFraction(BigInt(-8)).pow(new Fraction(1, 3))!.toString()
+    ).toBe('-2');
+    expect(new BigFraction(BigInt(-4)).pow(new Fraction(1, 2))).toBeNull();
+  });
+
+  it('approximates huge values', () => {
+    const result = new BigFraction(BigInt(3) ** BigInt(1000));
+    expect(result.log2()).toBeCloseTo(1000 * Math.log2(3));
+    expect(result.inverse().valueOf()).toBe(0);
+    expect(new BigFraction(BigInt(10) ** BigInt(20)).valueOf()).toBe(1e20);
+  });
+
+  it('can be factorized', () => {
+    const [vector, residual] = new BigFraction(
+      BigInt(-2) ** BigInt(70) * BigInt(11),
+      BigInt(9)
+    ).toMonzoAndResidual(3);
+    expect(vector).toEqual([70, -2, 0]);
+    expect(residual.toString()).toBe('11');
+  });
+});
+
+describe('Residual arithmetic', () => {
+  it('promotes to arbitrary precision on overflow', () => {
+    const large = new Fraction(2 ** 40 + 1, 3);
+    const product = mulResiduals(large, large);
+    expect(product).toBeInstanceOf(BigFraction);
+    expect(product.toString()).toBe(
+      `${(BigInt(2) ** BigInt(40) + BigInt(1)) ** BigInt(2)}/9`
+    );
+    const quotient = divResiduals(product, large);
+    expect(quotient).toBeInstanceOf(Fraction);
+    expect(quotient.equals(large)).toBeTruthy();
+    expect(
+      powResidual(product, new Fraction(1, 2))!.equals(large)
+    ).toBeTruthy();
+  });
+});
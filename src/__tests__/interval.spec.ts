@@ -2,7 +2,7 @@ import {describe, it, expect} from 'vitest';
 
 import {ExtendedMonzo} from '../monzo';
 import {Interval, IntervalOptions} from '../interval';
-import {Fraction} from 'xen-dev-utils';
+import {Fraction, valueToCents} from 'xen-dev-utils';
 
 describe('Scale line reverse parsing', () => {
   it('includes a denominator with integers', () => {
@@ -244,4 +244,151 @@ describe('Scale line reverse parsing', () => {
         '|[2, -1> + 1237.;[2, -1> + 704.46;[3/2, -1/3> + 2.5;[6, -3> + 2.5;[4, -2> + 5.;'
     );
   });
+
+  it('can be formatted in a subgroup basis', () => {
+    const interval = new Interval(
+      ExtendedMonzo.fromFraction(new Fraction(9, 7), 4),
+      'monzo',
+      undefined,
+      {preferredSubgroup: [2, 3, 7].map(n => new Fraction(n))}
+    );
+    expect(interval.toString()).toBe('[0, 2, -1>@2.3.7');
+  });
+
+  it('falls back to the prime basis outside of the subgroup', () => {
+    const interval = new Interval(
+      ExtendedMonzo.fromFraction(new Fraction(5, 4), 4),
+      'monzo',
+      undefined,
+      {preferredSubgroup: [2, 3, 7].map(n => new Fraction(n))}
+    );
+    expect(interval.toString()).toBe('[-2, 0, 1>');
+  });
+});
+
+describe('Interval serialization', () => {
+  it('preserves type, name and options', () => {
+    const interval = new Interval(
+      ExtendedMonzo.fromFraction(new Fraction(9, 7), 4),
+      'monzo',
+      'supermajor third',
+      {
+        preferredSubgroup: [2, 3, 7].map(n => new Fraction(n)),
+        preferredEtEquave: new Fraction(3),
+        centsFractionDigits: 2,
+      }
+    );
+    const data = JSON.parse(JSON.stringify(interval));
+    expect(data.options.preferredSubgroup).toEqual(['2', '3', '7']);
+    const revived = Interval.fromJSON(data);
+    expect(revived.monzo.strictEquals(interval.monzo)).toBeTruthy();
+    expect(revived.type).toBe('monzo');
+    expect(revived.name).toBe('supermajor third');
+    expect(revived.options.preferredEtEquave!.equals(3)).toBeTruthy();
+    expect(revived.options.centsFractionDigits).toBe(2);
+    expect(revived.toString()).toBe('[0, 2, -1>@2.3.7');
+  });
+
+  it('round-trips composite intervals exactly', () => {
+    const interval = new Interval(
+      ExtendedMonzo.fromFraction(new Fraction(11, 8), 2).add(
+        ExtendedMonzo.fromCents(0.1, 2)
+      ),
+      'any'
+    );
+    const revived = Interval.fromJSON(structuredClone(interval.toJSON()));
+    expect(revived.strictEquals(interval)).toBeTruthy();
+  });
+});
+
+describe('Interval variation', () => {
+  it('is reproducible from a seed', () => {
+    const fifth = new Interval(ExtendedMonzo.fromFraction('3/2', 2), 'ratio');
+    const a = fifth.vary(5, {seed: 12345});
+    const b = fifth.vary(5, {seed: 12345});
+    const c = fifth.vary(5, {seed: 54321});
+    expect(a.monzo.cents).toBe(b.monzo.cents);
+    expect(a.monzo.cents).not.toBe(c.monzo.cents);
+    expect(Math.abs(a.monzo.cents)).toBeLessThanOrEqual(5);
+  });
+
+  it('accepts a custom source of randomness', () => {
+    const fifth = new Interval(ExtendedMonzo.fromFraction('3/2', 2), 'ratio');
+    expect(fifth.vary(10, {random: () => 0.75}).monzo.cents).toBe(5);
+    expect(
+      fifth.vary(10, {random: () => 0.75, distribution: 'triangular'}).monzo
+        .cents
+    ).toBe(0);
+    expect(
+      fifth.vary(10, {random: () => 0.5, distribution: 'gaussian'}).monzo.cents
+    ).toBeCloseTo(-10 * Math.sqrt(-2 * Math.log(0.5)));
+  });
+
+  it('can vary in frequency-space', () => {
+    const fifth = new Interval(ExtendedMonzo.fromFraction('3/2', 2), 'ratio');
+    const result = fifth.vary(2, {
+      random: () => 0.75,
+      frequencySpace: true,
+      baseFrequency: 440,
+    });
+    expect(result.monzo.cents).toBeCloseTo(valueToCents(661 / 660));
+    expect(() => fifth.vary(2, {frequencySpace: true})).toThrow();
+  });
+
+  it('redraws frequency-space offsets larger than the frequency', () => {
+    const fifth = new Interval(ExtendedMonzo.fromFraction('3/2', 2), 'ratio');
+    for (let seed = 0; seed < 20; ++seed) {
+      const result = fifth.vary(1000, {
+        seed,
+        distribution: 'gaussian',
+        frequencySpace: true,
+        baseFrequency: 440,
+      });
+      expect(isFinite(result.totalCents())).toBeTruthy();
+    }
+    let count = 0;
+    const redrawn = fifth.vary(1000, {
+      random: () => (count++ ? 0.75 : 0),
+      frequencySpace: true,
+      baseFrequency: 440,
+    });
+    expect(redrawn.monzo.cents).toBeCloseTo(valueToCents(1160 / 660));
+    const reflected = fifth.vary(1000, {
+      random: () => 0,
+      frequencySpace: true,
+      baseFrequency: 440,
+    });
+    expect(reflected.monzo.cents).toBeCloseTo(valueToCents(1660 / 660));
+  });
+});
+
+describe('Interval resizing', () => {
+  it('preserves formatting when resized', () => {
+    const interval = new Interval(
+      ExtendedMonzo.fromFraction(new Fraction(7, 4), 2),
+      'ratio',
+      'septimal'
+    );
+    const result = interval.withComponents(4);
+    expect(result.monzo.numberOfComponents).toBe(4);
+    expect(result.monzo.residual.equals(1)).toBeTruthy();
+    expect(result.name).toBe('septimal');
+    expect(result.toString()).toBe('7/4');
+  });
+});
+
+describe('Interval complexity', () => {
+  it('passes complexity measures through to the monzo', () => {
+    const interval = new Interval(
+      ExtendedMonzo.fromFraction(new Fraction(7, 4), 4),
+      'ratio'
+    );
+    expect(interval.tenneyHeight()).toBeCloseTo(Math.log2(28));
+    expect(interval.benedettiHeight()).toBe(28);
+    expect(interval.weilHeight()).toBeCloseTo(Math.log2(7));
+    expect(interval.wilsonComplexity()).toBe(11);
+    expect(interval.primeLimit()).toBe(7);
+    expect(interval.oddLimit()).toBe(7);
+    expect(interval.integerLimit()).toBe(7);
+  });
 });
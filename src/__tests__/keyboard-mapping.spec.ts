@@ -0,0 +1,133 @@
+import {describe, it, expect} from 'vitest';
+
+import {
+  getFrequencyTable,
+  parseKeyboardMapping,
+  reverseParseKeyboardMapping,
+  type KeyboardMapping,
+} from '../keyboard-mapping';
+import {parseScale} from '../parser';
+
+const WHITE_KEYS = [
+  '! whitekeys.kbm',
+  '!',
+  '! Size of map:',
+  '12',
+  '! First MIDI note number to retune:',
+  '0',
+  '! Last MIDI note number to retune:',
+  '127',
+  '! Middle note where the first entry in the mapping is mapped to:',
+  '60',
+  '! Reference note for which frequency is given:',
+  '69',
+  '! Frequency to tune the above note to (floating point e.g. 440.0):',
+  '440.0',
+  '! Scale degree to consider as formal octave:',
+  '7',
+  '! Mapping.',
+  '0',
+  'x',
+  '1',
+  'x',
+  '2',
+  '3',
+  'x',
+  '4',
+  'x',
+  '5',
+  'x',
+  '6',
+].join('\n');
+
+describe('Keyboard mapping parser', () => {
+  it('parses a .kbm file with unmapped keys', () => {
+    const mapping = parseKeyboardMapping(WHITE_KEYS);
+    expect(mapping.mapSize).toBe(12);
+    expect(mapping.firstKey).toBe(0);
+    expect(mapping.lastKey).toBe(127);
+    expect(mapping.middleNote).toBe(60);
+    expect(mapping.referenceKey).toBe(69);
+    expect(mapping.referenceFrequency).toBe(440);
+    expect(mapping.octaveDegree).toBe(7);
+    expect(mapping.mapping).toEqual([
+      0,
+      null,
+      1,
+      null,
+      2,
+      3,
+      null,
+      4,
+      null,
+      5,
+      null,
+      6,
+    ]);
+  });
+
+  it('pads missing entries as unmapped', () => {
+    const mapping = parseKeyboardMapping('3\n0\n127\n60\n60\n261.6\n0\n0\n1');
+    expect(mapping.mapping).toEqual([0, 1, null]);
+  });
+
+  it('rejects too many mapping entries', () => {
+    expect(() =>
+      parseKeyboardMapping('1\n0\n127\n60\n60\n261.6\n0\n0\n1')
+    ).toThrow();
+  });
+
+  it('round-trips through the serializer', () => {
+    const mapping = parseKeyboardMapping(WHITE_KEYS);
+    expect(
+      parseKeyboardMapping(reverseParseKeyboardMapping(mapping))
+    ).toStrictEqual(mapping);
+  });
+});
+
+describe('Frequency table', () => {
+  it('maps a scale linearly', () => {
+    const scale = parseScale('9/8\n5/4\n2/1', 3);
+    const mapping: KeyboardMapping = {
+      mapSize: 0,
+      firstKey: 0,
+      lastKey: 127,
+      middleNote: 60,
+      referenceKey: 60,
+      referenceFrequency: 200,
+      octaveDegree: 0,
+      mapping: [],
+    };
+    const table = getFrequencyTable(scale, mapping);
+    expect(table.length).toBe(128);
+    expect(table[60]).toBeCloseTo(200);
+    expect(table[61]).toBeCloseTo(225);
+    expect(table[62]).toBeCloseTo(250);
+    expect(table[63]).toBeCloseTo(400);
+    expect(table[59]).toBeCloseTo(125);
+  });
+
+  it('maps a diatonic scale to the white keys', () => {
+    const scale = parseScale(
+      ['9/8', '5/4', '4/3', '3/2', '5/3', '15/8', '2/1'].join('\n'),
+      3
+    );
+    const table = getFrequencyTable(scale, parseKeyboardMapping(WHITE_KEYS));
+    expect(table[69]).toBeCloseTo(440);
+    expect(table[60]).toBeCloseTo(264);
+    expect(table[61]).toBe(null);
+    expect(table[72]).toBeCloseTo(528);
+    expect(table[71]).toBeCloseTo(495);
+    expect(table[59]).toBeCloseTo(247.5);
+  });
+
+  it('leaves keys outside of the retuned range unmapped', () => {
+    const scale = parseScale('2/1', 1);
+    const mapping = parseKeyboardMapping('0\n10\n20\n15\n15\n100\n0\n');
+    const table = getFrequencyTable(scale, mapping);
+    expect(table[9]).toBe(null);
+    expect(table[10]).toBeCloseTo(100 / 32);
+    expect(table[20]).toBeCloseTo(3200);
+    expect(table[21]).toBe(null);
+  });
+});
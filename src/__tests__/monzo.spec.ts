@@ -1,7 +1,8 @@
 import {describe, it, expect} from 'vitest';
 import {Fraction, valueToCents} from 'xen-dev-utils';
 
-import {ExtendedMonzo} from '../monzo';
+import {ExtendedMonzo, Val} from '../monzo';
+import {BigFraction} from '../big-fraction';
 
 describe('Extended Monzo', () => {
   it('can be constructed from an integer', () => {
@@ -57,6 +58,16 @@ describe('Extended Monzo', () => {
     expect(result.residual.equals(1)).toBeTruthy();
     expect(result.cents).toBe(0);
   });
+  it('can be constructed from n of an equave with a residual', () => {
+    const result = ExtendedMonzo.fromEqualTemperament('1/4', '26/1', 3);
+    expect(result.vector.map(component => component.toFraction())).toEqual([
+      '1/4',
+      '0',
+      '0',
+    ]);
+    expect(result.residual.equals(1)).toBeTruthy();
+    expect(result.totalCents()).toBeCloseTo(valueToCents(26) / 4);
+  });
   it('can be constructed from n of edo without default octave', () => {
     const flatFifth = new Fraction(13, 23);
     const result = ExtendedMonzo.fromEqualTemperament(flatFifth);
@@ -297,4 +308,261 @@ describe('Extended Monzo', () => {
     const six = ExtendedMonzo.fromFraction(6, 2);
     expect(six.isPowerOfTwo()).toBeFalsy();
   });
+
+  it('can be expressed in a subgroup basis', () => {
+    const monzo = ExtendedMonzo.fromFraction(new Fraction(7, 6), 3);
+    const components = monzo.toSubgroupMonzo([2, 3, 7]);
+    expect(components.map(c => c.toFraction())).toEqual(['-1', '-1', '1']);
+  });
+
+  it('can be expressed in a subgroup with composite basis elements', () => {
+    const monzo = ExtendedMonzo.fromFraction(new Fraction(45, 32), 5);
+    const components = monzo.toSubgroupMonzo([2, 9, 5]);
+    expect(components.map(c => c.toFraction())).toEqual(['-5', '1', '1']);
+  });
+
+  it('throws when not in the subgroup', () => {
+    const monzo = ExtendedMonzo.fromFraction(new Fraction(5, 4), 3);
+    expect(() => monzo.toSubgroupMonzo([2, 3, 7])).toThrow();
+  });
+
+  it('can be resized to more components', () => {
+    const monzo = ExtendedMonzo.fromFraction(new Fraction(21, 20), 2);
+    expect(monzo.residual.equals(new Fraction(7, 5))).toBeTruthy();
+    const result = monzo.withComponents(4);
+    expect(result.vector.map(c => c.toFraction())).toEqual([
+      '-2',
+      '1',
+      '-1',
+      '1',
+    ]);
+    expect(result.residual.equals(1)).toBeTruthy();
+    expect(result.strictEquals(ExtendedMonzo.fromFraction('21/20', 4))).toBe(
+      true
+    );
+  });
+
+  it('can be resized to fewer components', () => {
+    const monzo = ExtendedMonzo.fromFraction(new Fraction(45, 32), 3);
+    const result = monzo.withComponents(2);
+    expect(result.vector.map(c => c.toFraction())).toEqual(['-5', '2']);
+    expect(result.residual.equals(5)).toBeTruthy();
+    expect(result.totalCents()).toBeCloseTo(monzo.totalCents());
+  });
+
+  it('moves fractional exponents to cents when resizing', () => {
+    const monzo = ExtendedMonzo.fromFraction(new Fraction(5, 4), 3).div(2);
+    const result = monzo.withComponents(2);
+    expect(result.vector.map(c => c.toFraction())).toEqual(['-1', '0']);
+    expect(result.residual.equals(1)).toBeTruthy();
+    expect(result.cents).toBeCloseTo(valueToCents(5) / 2);
+  });
+
+  it('compares exactly regardless of representation', () => {
+    const vectorComma = ExtendedMonzo.fromFraction(new Fraction(81, 80), 3);
+    const residualComma = new ExtendedMonzo([], new Fraction(81, 80));
+    expect(vectorComma.totalCents()).not.toBe(residualComma.totalCents());
+    expect(vectorComma.equals(residualComma)).toBeTruthy();
+    expect(vectorComma.hashKey()).toBe(residualComma.hashKey());
+
+    const unison = ExtendedMonzo.fromFraction(new Fraction(3, 2), 2)
+      .mul(3)
+      .sub(ExtendedMonzo.fromFraction(new Fraction(27, 8), 0));
+    expect(unison.totalCents()).not.toBe(0);
+    expect(unison.equals(ExtendedMonzo.fromFraction(1, 4))).toBeTruthy();
+    expect(unison.hashKey()).toBe(ExtendedMonzo.fromFraction(1, 4).hashKey());
+  });
+
+  it('keys equal monzos with cents offsets into adjacent size buckets', () => {
+    const a = ExtendedMonzo.fromCents(100.0000000006, 3);
+    const b = ExtendedMonzo.fromCents(100.0000000004, 3);
+    expect(a.equals(b)).toBeTruthy();
+    expect(Math.abs(a.sizeBucket() - b.sizeBucket())).toBe(1);
+  });
+
+  it('compares cents offsets with a small tolerance', () => {
+    const a = ExtendedMonzo.fromFraction(new Fraction(3, 2), 2);
+    expect(a.equals(a.add(ExtendedMonzo.fromCents(1e-6, 2)))).toBeFalsy();
+    expect(a.equals(a.add(ExtendedMonzo.fromCents(1e-12, 2)))).toBeTruthy();
+  });
+
+  it('can be serialized losslessly', () => {
+    const huge = new BigFraction(BigInt(13) ** BigInt(20), BigInt(11));
+    const monzo = new ExtendedMonzo(
+      [new Fraction(-1, 3), new Fraction(2)],
+      huge,
+      1.25
+    );
+    const data = JSON.parse(JSON.stringify(monzo));
+    expect(data.residual).toBe(`${BigInt(13) ** BigInt(20)}/11`);
+    const revived = ExtendedMonzo.fromJSON(data);
+    expect(revived.strictEquals(monzo)).toBeTruthy();
+    expect(revived.residual).toBeInstanceOf(BigFraction);
+
+    const simple = ExtendedMonzo.fromFraction(new Fraction(-7, 5), 2);
+    const clone = ExtendedMonzo.fromJSON(structuredClone(simple.toJSON()));
+    expect(clone.strictEquals(simple)).toBeTruthy();
+    expect(clone.residual).toBeInstanceOf(Fraction);
+  });
+
+  it('refuses to deserialize unknown schema versions', () => {
+    const data = ExtendedMonzo.fromFraction(3, 2).toJSON();
+    data.version = 0;
+    expect(() => ExtendedMonzo.fromJSON(data)).toThrow(
+      'Unsupported schema version 0'
+    );
+  });
+
+  it('keeps repeated comma pumps outside of the vector exact', () => {
+    const fraction = ExtendedMonzo.fromFraction(new Fraction(13, 7), 3);
+    let pump = fraction;
+    for (let i = 1; i < 30; ++i) {
+      pump = pump.add(fraction);
+    }
+    expect(pump.residual).toBeInstanceOf(BigFraction);
+    expect(pump.isFractional()).toBeFalsy();
+    expect(
+      pump
+        .toBigFraction()
+        .equals(
+          new BigFraction(BigInt(13) ** BigInt(30), BigInt(7) ** BigInt(30))
+        )
+    ).toBeTruthy();
+    expect(pump.totalCents()).toBeCloseTo(30 * valueToCents(13 / 7));
+    expect(pump.strictEquals(fraction.mul(30))).toBeTruthy();
+    expect(pump.div(30).strictEquals(fraction)).toBeTruthy();
+    const unison = pump.sub(fraction.mul(30));
+    expect(unison.residual).toBeInstanceOf(Fraction);
+    expect(unison.toFraction().equals(1)).toBeTruthy();
+  });
+
+  it('can be converted to an arbitrary-precision fraction', () => {
+    const monzo = new ExtendedMonzo([new Fraction(100), new Fraction(-1)]);
+    expect(monzo.toBigFraction().toString()).toBe(
+      `${BigInt(2) ** BigInt(100)}/3`
+    );
+    expect(() => monzo.toFraction()).toThrow();
+    expect(() => monzo.div(2).toBigFraction()).toThrow();
+  });
+
+  it('only considers ratios within the sanity limits of fractions fractional', () => {
+    const huge = new ExtendedMonzo(
+      [new Fraction(0), new Fraction(0)],
+      new BigFraction(BigInt(13) ** BigInt(20), BigInt(11))
+    );
+    expect(huge.residual).toBeInstanceOf(BigFraction);
+    expect(huge.isFractional()).toBeFalsy();
+    expect(() => huge.toFraction()).toThrow();
+    expect(huge.toBigFraction().toString()).toBe(
+      `${BigInt(13) ** BigInt(20)}/11`
+    );
+  });
+});
+
+describe('Extended monzo complexity', () => {
+  it('calculates heights of ratios', () => {
+    const monzo = ExtendedMonzo.fromFraction(new Fraction(15, 8), 3);
+    expect(monzo.tenneyHeight()).toBeCloseTo(Math.log2(120));
+    expect(monzo.benedettiHeight()).toBe(120);
+    expect(monzo.weilHeight()).toBeCloseTo(Math.log2(15));
+    expect(monzo.wilsonComplexity()).toBe(14);
+  });
+
+  it('calculates limits of ratios', () => {
+    const monzo = ExtendedMonzo.fromFraction(new Fraction(14, 9), 3);
+    expect(monzo.primeLimit()).toBe(7);
+    expect(monzo.oddLimit()).toBe(9);
+    expect(monzo.integerLimit()).toBe(14);
+  });
+
+  it('includes the residual', () => {
+    const monzo = ExtendedMonzo.fromFraction(new Fraction(26, 21), 2);
+    expect(monzo.residual.equals(new Fraction(13, 7))).toBeTruthy();
+    expect(monzo.benedettiHeight()).toBe(546);
+    expect(monzo.tenneyHeight()).toBeCloseTo(Math.log2(546));
+    expect(monzo.wilsonComplexity()).toBe(25);
+    expect(monzo.primeLimit()).toBe(13);
+    expect(monzo.oddLimit()).toBe(21);
+  });
+
+  it('measures arbitrary-precision residuals exactly', () => {
+    const square = (BigInt(1000003) * BigInt(1000033)) ** BigInt(2);
+    const monzo = new ExtendedMonzo(
+      [new Fraction(1), new Fraction(0), new Fraction(0)],
+      new BigFraction(square)
+    );
+    expect(monzo.residual).toBeInstanceOf(BigFraction);
+    expect(monzo.wilsonComplexity()).toBe(2 + 2 * 1000003 + 2 * 1000033);
+    expect(monzo.benedettiHeight()).toBe(Number(BigInt(2) * square));
+    expect(monzo.integerLimit()).toBe(Number(BigInt(2) * square));
+    expect(monzo.oddLimit()).toBe(Number(square));
+  });
+
+  it('finds large primes in the residual', () => {
+    expect(ExtendedMonzo.fromFraction(1000003, 3).primeLimit()).toBe(1000003);
+    expect(
+      ExtendedMonzo.fromFraction(
+        new Fraction(7, 1000003 * 1000033),
+        3
+      ).primeLimit()
+    ).toBe(1000033);
+  });
+
+  it('treats unison as the simplest interval', () => {
+    const unison = ExtendedMonzo.fromFraction(1, 3);
+    expect(unison.tenneyHeight()).toBe(0);
+    expect(unison.primeLimit()).toBe(1);
+    expect(unison.oddLimit()).toBe(1);
+  });
+
+  it('refuses to measure irrational intervals', () => {
+    expect(() => ExtendedMonzo.fromCents(100, 3).tenneyHeight()).toThrow(
+      'Tenney height is only defined for rational intervals'
+    );
+    expect(() =>
+      ExtendedMonzo.fromEqualTemperament('7/12', 2, 3).oddLimit()
+    ).toThrow('Odd limit is only defined for rational intervals');
+  });
+});
+
+describe('Val', () => {
+  it('maps monzos to steps', () => {
+    const val = Val.fromArray([12, 19, 28]);
+    const fifth = ExtendedMonzo.fromFraction(new Fraction(3, 2), 3);
+    expect(val.map(fifth).equals(7)).toBeTruthy();
+  });
+
+  it('maps residuals and fractional monzos', () => {
+    const val = Val.fromArray([12, 19, 28]);
+    const majorThird = ExtendedMonzo.fromFraction(new Fraction(5, 4), 1);
+    expect(val.map(majorThird).equals(4)).toBeTruthy();
+    const halfFifth = ExtendedMonzo.fromFraction(new Fraction(3, 2), 3).div(2);
+    expect(val.map(halfFifth).toFraction()).toBe('7/2');
+  });
+
+  it('refuses to map outside of its prime limit', () => {
+    const val = Val.fromArray([12, 19, 28]);
+    const harmonicSeventh = ExtendedMonzo.fromFraction(new Fraction(7, 4), 4);
+    expect(() => val.map(harmonicSeventh)).toThrow();
+    expect(() => val.map(ExtendedMonzo.fromCents(100, 3))).toThrow();
+  });
+
+  it('constructs patent vals', () => {
+    expect(Val.fromPatent(12, 4).toString()).toBe('<12 19 28 34]');
+    expect(Val.fromPatent(13, 3, 3).toString()).toBe('<8 13 19]');
+    expect(() => Val.fromPatent(12.5, 3)).toThrow();
+  });
+
+  it('constructs nearest vals for non-integral divisions', () => {
+    expect(Val.fromNearest(16.9, 3).toString()).toBe('<17 27 39]');
+  });
+
+  it('supports arithmetic', () => {
+    const twelve = Val.fromArray([12, 19, 28]);
+    const seven = Val.fromArray([7, 11]);
+    expect(twelve.add(seven).toString()).toBe('<19 30 28]');
+    expect(twelve.sub(seven).equals(Val.fromArray([5, 8, 28]))).toBeTruthy();
+    expect(seven.mul(2).equals(Val.fromArray([14, 22, 0]))).toBeTruthy();
+    expect(seven.neg().toString()).toBe('<-7 -11]');
+  });
 });
@@ -0,0 +1,175 @@
+import {describe, it, expect} from 'vitest';
+
+import {
+  bulkTuningDump,
+  frequencyToMtsData,
+  getOctaveTuningOffsets,
+  scaleOctaveTuning1Byte,
+  scaleOctaveTuning2Byte,
+  singleNoteTuningChange,
+} from '../mts';
+import {type KeyboardMapping} from '../keyboard-mapping';
+import {parseScale} from '../parser';
+import {Scale} from '../scale';
+import {Fraction} from 'xen-dev-utils';
+
+const LINEAR_A440: KeyboardMapping = {
+  mapSize: 0,
+  firstKey: 0,
+  lastKey: 127,
+  middleNote: 69,
+  referenceKey: 69,
+  referenceFrequency: 440,
+  octaveDegree: 0,
+  mapping: [],
+};
+
+describe('MTS frequency data', () => {
+  it('encodes A440', () => {
+    expect(frequencyToMtsData(440)).toEqual([69, 0, 0]);
+  });
+
+  it('encodes fractional semitones with 14 bits', () => {
+    expect(frequencyToMtsData(8.1758 * 2 ** (0.5 / 12))).toEqual([0, 64, 0]);
+    const almostC = 261.6255653005986 * 2 ** (-0.00001 / 12);
+    expect(frequencyToMtsData(almostC)).toEqual([60, 0, 0]);
+  });
+
+  it('clamps out-of-range frequencies', () => {
+    expect(frequencyToMtsData(1)).toEqual([0, 0, 0]);
+    expect(frequencyToMtsData(20000)).toEqual([0x7f, 0x7f, 0x7e]);
+  });
+
+  it('encodes missing frequencies as no change', () => {
+    expect(frequencyToMtsData(null)).toEqual([0x7f, 0x7f, 0x7f]);
+  });
+});
+
+describe('MTS messages', () => {
+  it('generates a bulk tuning dump of 12-EDO', () => {
+    const scale = Scale.fromEqualTemperament(12, new Fraction(2), 1);
+    const message = bulkTuningDump(scale, LINEAR_A440, '12-EDO', 3);
+    expect(message.length).toBe(408);
+    expect([...message.slice(0, 6)]).toEqual([
+      0xf0, 0x7e, 0x7f, 0x08, 0x01, 0x03,
+    ]);
+    expect(String.fromCharCode(...message.slice(6, 22))).toBe(
+      '12-EDO          '
+    );
+    for (let key = 0; key < 128; ++key) {
+      const offset = 22 + 3 * key;
+      expect([...message.slice(offset, offset + 3)]).toEqual([key, 0, 0]);
+    }
+    let checksum = 0;
+    for (let i = 1; i < 406; ++i) {
+      checksum ^= message[i];
+    }
+    expect(message[406]).toBe(checksum & 0x7f);
+    expect(message[407]).toBe(0xf7);
+  });
+
+  it('splits single note tuning changes into messages of 127 changes', () => {
+    const scale = parseScale('3/2\n2/1', 3);
+    const messages = singleNoteTuningChange(scale, LINEAR_A440);
+    expect(messages.length).toBe(2);
+    expect(messages[0].length).toBe(8 + 127 * 4);
+    expect(messages[0][6]).toBe(127);
+    expect(messages[1][6]).toBe(1);
+    const last = messages[1];
+    expect([...last]).toEqual([
+      0xf0, 0x7f, 0x7f, 0x08, 0x02, 0x00, 1, 127, 0x7f, 0x7f, 0x7e, 0xf7,
+    ]);
+  });
+
+  it('retunes only the requested keys', () => {
+    const scale = parseScale('3/2\n2/1', 3);
+    const [message] = singleNoteTuningChange(scale, LINEAR_A440, [70], 5, 1);
+    // 660 Hz is 701.955 cents above A440
+    expect([...message]).toEqual([
+      0xf0, 0x7f, 0x01, 0x08, 0x02, 0x05, 1, 70, 76, 0x02, 0x40, 0xf7,
+    ]);
+  });
+
+  it('calculates octave tuning offsets', () => {
+    const scale = parseScale(
+      [
+        '16/15',
+        '9/8',
+        '6/5',
+        '5/4',
+        '4/3',
+        '45/32',
+        '3/2',
+        '8/5',
+        '5/3',
+        '16/9',
+        '15/8',
+        '2/1',
+      ].join('\n'),
+      3
+    );
+    const mapping = {...LINEAR_A440, middleNote: 60, referenceKey: 60};
+    mapping.referenceFrequency = 261.6255653005986;
+    const offsets = getOctaveTuningOffsets(scale, mapping);
+    expect(offsets[0]).toBeCloseTo(0);
+    expect(offsets[4]).toBeCloseTo(-13.686);
+    expect(offsets[7]).toBeCloseTo(1.955);
+  });
+
+  it('generates scale/octave tuning messages', () => {
+    const scale = parseScale(
+      [
+        '16/15',
+        '9/8',
+        '6/5',
+        '5/4',
+        '4/3',
+        '45/32',
+        '3/2',
+        '8/5',
+        '5/3',
+        '16/9',
+        '15/8',
+        '2/1',
+      ].join('\n'),
+      3
+    );
+    const mapping = {...LINEAR_A440, middleNote: 60, referenceKey: 60};
+    mapping.referenceFrequency = 261.6255653005986;
+
+    const oneByte = scaleOctaveTuning1Byte(scale, mapping, [0, 8, 15]);
+    expect(oneByte.length).toBe(21);
+    expect([...oneByte.slice(0, 8)]).toEqual([
+      0xf0, 0x7e, 0x7f, 0x08, 0x08, 0x02, 0x02, 0x01,
+    ]);
+    expect(oneByte[8]).toBe(0x40);
+    expect(oneByte[8 + 4]).toBe(0x40 - 14);
+    expect(oneByte[20]).toBe(0xf7);
+
+    const twoByte = scaleOctaveTuning2Byte(scale, mapping, undefined, true);
+    expect(twoByte.length).toBe(33);
+    expect([...twoByte.slice(0, 8)]).toEqual([
+      0xf0, 0x7f, 0x7f, 0x08, 0x09, 0x03, 0x7f, 0x7f,
+    ]);
+    expect(twoByte[8]).toBe(0x40);
+    expect(twoByte[9]).toBe(0x00);
+    const value = (twoByte[8 + 14] << 7) | twoByte[8 + 15];
+    expect(((value - 0x2000) * 100) / 0x2000).toBeCloseTo(1.955, 1);
+  });
+
+  it('clamps octave tuning offsets', () => {
+    const lines = ['220.', '50.'];
+    for (let i = 3; i < 12; ++i) {
+      lines.push(`${i * 100}.`);
+    }
+    lines.push('2/1');
+    const scale = parseScale(lines.join('\n'), 3);
+    const mapping = {...LINEAR_A440, middleNote: 60, referenceKey: 60};
+    mapping.referenceFrequency = 261.6255653005986;
+    const oneByte = scaleOctaveTuning1Byte(scale, mapping);
+    expect(oneByte[8 + 1]).toBe(0x7f);
+    expect(oneByte[8 + 2]).toBe(0x00);
+    const twoByte = scaleOctaveTuning2Byte(scale, mapping);
+    expect([...twoByte.slice(8 + 2, 8 + 6)]).toEqual([0x7f, 0x7f, 0x00, 0x00]);
+  });
+});
@@ -2,10 +2,17 @@ import {describe, it, expect} from 'vitest';
 
 import {
   enumerateChord,
+  getLineType,
+  LINE_TYPE,
+  PARSE_ERROR_REASON,
   parseChord,
   parseLine as parseLine_,
   parseScale,
+  parseScalaFile,
+  parseVal,
   reverseParseScale,
+  reverseParseScalaFile,
+  ScaleParseError,
 } from '../parser';
 import {ExtendedMonzo} from '../monzo';
 import {Interval} from '../interval';
@@ -249,6 +256,58 @@ describe('Line parser', () => {
     ).toBeTruthy();
   });
 
+  it('parses scalar multiplication of ratios', () => {
+    const result = parseLine('3/2 * 3');
+    expect(result.name).toBe('3/2 * 3');
+    expect(result.type).toBe('ratio');
+    expect(result.monzo.toFraction().equals('27/8')).toBeTruthy();
+    expect(getLineType('3/2 * 3')).toBe(LINE_TYPE.COMPOSITE);
+  });
+
+  it('parses scalar multiplication of equal temperaments', () => {
+    const result = parseLine('7\\12 * 2');
+    expect(result.type).toBe('equal temperament');
+    expect(result.toString()).toBe('14\\12');
+  });
+
+  it('parses scalar division of monzos', () => {
+    const result = parseLine('[-4 4 -1> % 2');
+    expect(result.type).toBe('monzo');
+    expect(result.monzo.vector[0].equals(-2)).toBeTruthy();
+    expect(result.monzo.vector[1].equals(2)).toBeTruthy();
+    expect(result.monzo.vector[2].equals('-1/2')).toBeTruthy();
+    expect(result.totalCents()).toBeCloseTo(10.7569);
+  });
+
+  it('turns fractional powers of ratios into equal temperaments', () => {
+    const result = parseLine('3/2 ÷ 2');
+    expect(result.type).toBe('equal temperament');
+    expect(result.totalCents()).toBeCloseTo(350.977);
+  });
+
+  it('evaluates scalar operators before addition', () => {
+    const result = parseLine('2/1 - 3/2 * 2 + 1\\12 * -1/2');
+    expect(result.totalCents()).toBeCloseTo(1200 - 2 * 701.955 - 50);
+  });
+
+  it('parses unary minus applied to a group', () => {
+    const result = parseLine('-(3/2 + 5/4)');
+    expect(result.name).toBe('-(3/2 + 5/4)');
+    expect(result.monzo.toFraction().equals('8/15')).toBeTruthy();
+    expect(getLineType('-(3/2 + 5/4)')).toBe(LINE_TYPE.COMPOSITE);
+  });
+
+  it('parses nested groups', () => {
+    const result = parseLine('2/1 - ((3/2 + 1\\12) - [-1 1>)');
+    expect(result.totalCents()).toBeCloseTo(1100);
+    expect(getLineType('((7/4))')).toBe(LINE_TYPE.RATIO);
+  });
+
+  it("doesn't parse bare numbers inside parentheses", () => {
+    expect(() => parseLine('(42)')).toThrow();
+    expect(() => parseLine('(3/2')).toThrow();
+  });
+
   it('infers interval preferences for equal temperament', () => {
     const et = parseLine('1\\12');
     expect(et.add(et).name).toBe('2\\12');
@@ -257,6 +316,19 @@ describe('Line parser', () => {
     expect(genEt.sub(genEt).name).toBe('0\\15<9>');
   });
 
+  it('parses equal divisions of irrational equaves', () => {
+    const stretched = parseLine('3\\13<1901.955>');
+    expect(stretched.type).toBe('equal temperament');
+    expect(stretched.totalCents()).toBeCloseTo((1901.955 * 3) / 13);
+    expect(stretched.toString()).toBe('3\\13<1901.955>');
+    expect(stretched.add(stretched).name).toBe('6\\13<1901.955>');
+
+    const highPrime = parseLine_('2\\5<13>', 3);
+    expect(highPrime.monzo.cents).not.toBe(0);
+    expect(highPrime.toString()).toBe('2\\5<13>');
+    expect(highPrime.neg().equalTemperamentString()).toBe('-2\\5<13>');
+  });
+
   it("doesn't infer preferences for ratios", () => {
     const ratio = parseLine('4/24');
     expect(ratio.zeroed().name).toBe('1/1');
@@ -295,6 +367,113 @@ describe('Line parser', () => {
   });
 });
 
+describe('Parse errors', () => {
+  function parseError(input: string, admitBareNumbers = false) {
+    try {
+      parseLine_(
+        input,
+        DEFAULT_NUMBER_OF_COMPONENTS,
+        undefined,
+        admitBareNumbers,
+        false
+      );
+    } catch (error) {
+      if (error instanceof ScaleParseError) {
+        return error;
+      }
+      throw error;
+    }
+    throw new Error('Parsing succeeded');
+  }
+
+  it('reports bare numbers', () => {
+    const error = parseError(' 42 ');
+    expect(error.reason).toBe(PARSE_ERROR_REASON.BARE_NUMBER);
+    expect(error.start).toBe(1);
+    expect(error.end).toBe(3);
+    expect(error.text).toBe('42');
+  });
+
+  it('reports universal minus violations', () => {
+    const error = parseError('-3/2');
+    expect(error.reason).toBe(PARSE_ERROR_REASON.UNIVERSAL_MINUS);
+    expect(error.text).toBe('-3/2');
+  });
+
+  it('reports unsafe fractions', () => {
+    const error = parseError('3/2 + 99999999999999999/2');
+    expect(error.reason).toBe(PARSE_ERROR_REASON.UNSAFE_FRACTION);
+    expect(error.start).toBe(6);
+    expect(error.end).toBe(23);
+    expect(error.text).toBe('99999999999999999');
+  });
+
+  it('reports unknown tokens', () => {
+    const error = parseError('3/2 + foo');
+    expect(error.reason).toBe(PARSE_ERROR_REASON.UNKNOWN_TOKEN);
+    expect(error.start).toBe(6);
+    expect(error.end).toBe(9);
+    expect(error.text).toBe('foo');
+  });
+
+  it('reports invalid values', () => {
+    const error = parseError(' 1/0');
+    expect(error.reason).toBe(PARSE_ERROR_REASON.INVALID_VALUE);
+    expect(error.message).toBe('Division by Zero');
+    expect(error.start).toBe(1);
+    expect(error.end).toBe(4);
+    expect(parseError('[1 1 1>@2.3').reason).toBe(
+      PARSE_ERROR_REASON.INVALID_VALUE
+    );
+  });
+
+  it('reports the line index when parsing a scale', () => {
+    expect.assertions(3);
+    try {
+      parseScale('5/4\n3/2\nbar\n2/1', DEFAULT_NUMBER_OF_COMPONENTS);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScaleParseError);
+      expect((error as ScaleParseError).lineIndex).toBe(2);
+      expect((error as ScaleParseError).text).toBe('bar');
+    }
+  });
+
+  it('collects all errors in tolerant mode', () => {
+    const errors: ScaleParseError[] = [];
+    const scale = parseScale(
+      ['5/4', '7', '3/2 +', '5\\12', '2/1'].join('\n'),
+      DEFAULT_NUMBER_OF_COMPONENTS,
+      440,
+      undefined,
+      errors
+    );
+    expect(scale.size).toBe(3);
+    expect(scale.equave.name).toBe('2/1');
+    expect(errors.map(error => error.lineIndex)).toEqual([1, 2]);
+    expect(errors.map(error => error.reason)).toEqual([
+      PARSE_ERROR_REASON.BARE_NUMBER,
+      PARSE_ERROR_REASON.UNKNOWN_TOKEN,
+    ]);
+  });
+
+  it('collects evaluation errors in tolerant mode', () => {
+    const errors: ScaleParseError[] = [];
+    const scale = parseScale(
+      ['5/4', '1/0', '1\\5<1/0>', '3/2', '2/1'].join('\n'),
+      DEFAULT_NUMBER_OF_COMPONENTS,
+      440,
+      undefined,
+      errors
+    );
+    expect(scale.size).toBe(3);
+    expect(errors.map(error => error.lineIndex)).toEqual([1, 2]);
+    expect(errors.map(error => error.text)).toEqual(['1/0', '1\\5<1/0>']);
+    expect(
+      errors.every(error => error.reason === PARSE_ERROR_REASON.INVALID_VALUE)
+    ).toBe(true);
+  });
+});
+
 describe('Chord parser', () => {
   it('parses all line types and bare numbers', () => {
     const scale = Scale.fromChord(
@@ -399,6 +578,208 @@ describe('Scale parse', () => {
   });
 });
 
+describe('Subgroup monzos', () => {
+  it('evaluates monzos in a subgroup basis', () => {
+    const result = parseLine('[1 -1>@2.3.7');
+    expect(result.type).toBe('monzo');
+    expect(result.monzo.toFraction().toFraction()).toBe('2/3');
+    expect(parseLine('[0, 1, -1>@2.3.7').monzo.toFraction().toFraction()).toBe(
+      '3/7'
+    );
+  });
+
+  it('supports fractional basis elements and exponents', () => {
+    expect(parseLine('[-3 1>@2.9/5').monzo.toFraction().toFraction()).toBe(
+      '9/40'
+    );
+    expect(parseLine('[1/2>@9').monzo.toFraction().toFraction()).toBe('3');
+  });
+
+  it('remembers the subgroup for formatting', () => {
+    const result = parseLine('[1 1>@2.9/7');
+    expect(result.options.preferredSubgroup!.map(f => f.toFraction())).toEqual([
+      '2',
+      '9/7',
+    ]);
+    expect(result.monzoString()).toBe('[1, 1>@2.9/7');
+    expect(result.toString()).toBe('[1, 1>@2.9/7');
+    expect(
+      parseLine(result.toString()).monzo.equals(result.monzo)
+    ).toBeTruthy();
+  });
+
+  it('throws when there are more components than basis elements', () => {
+    expect(() => parseLine('[1 2 3>@2.3')).toThrow();
+  });
+
+  it('preserves subgroup monzos in reverse parsing', () => {
+    const scale = parseScale(
+      ['[-2 1>@2.7', '[1 -1>@3.7', '2/1'].join('\n'),
+      DEFAULT_NUMBER_OF_COMPONENTS
+    );
+    expect(reverseParseScale(scale)).toEqual([
+      '[-2 1>@2.7',
+      '[1 -1>@3.7',
+      '2/1',
+    ]);
+  });
+});
+
+describe('Val parser', () => {
+  it('parses vals in bra notation', () => {
+    const val = parseVal(' <17 27, 39] ');
+    expect(val.toString()).toBe('<17 27 39]');
+  });
+
+  it('maps intervals parsed from scale lines', () => {
+    const val = parseVal('<12 19 28]');
+    expect(val.map(parseLine('[-4 4 -1>').monzo).equals(0)).toBeTruthy();
+  });
+
+  it('throws on malformed input', () => {
+    expect(() => parseVal('<12 19 28>')).toThrow(ScaleParseError);
+  });
+});
+
+describe('Absolute frequencies', () => {
+  it('converts frequencies to ratios against the base frequency', () => {
+    const result = parseLine_(
+      '660 Hz',
+      DEFAULT_NUMBER_OF_COMPONENTS,
+      undefined,
+      false,
+      true,
+      440
+    );
+    expect(result.type).toBe('frequency');
+    expect(result.monzo.valueOf()).toBeCloseTo(1.5);
+    expect(result.toString()).toBe('660 Hz');
+  });
+
+  it('throws without a base frequency', () => {
+    expect(() => parseLine('660 Hz')).toThrow();
+  });
+
+  it('identifies the line type', () => {
+    expect(getLineType('261.6 Hz')).toBe(LINE_TYPE.FREQUENCY);
+    expect(getLineType('440 Hz - 1\\12')).toBe(LINE_TYPE.COMPOSITE);
+  });
+
+  it('mixes frequencies with other intervals', () => {
+    const result = parseLine_('440 Hz + 3/2', DEFAULT_NUMBER_OF_COMPONENTS, {
+      baseFrequency: 220,
+    });
+    expect(result.monzo.valueOf()).toBeCloseTo(3);
+  });
+
+  it('uses the base frequency of the scale', () => {
+    const scale = parseScale(
+      ['275 Hz', '330.0 Hz', '440 Hz'].join('\n'),
+      DEFAULT_NUMBER_OF_COMPONENTS,
+      220
+    );
+    expect(scale.getFrequency(1)).toBeCloseTo(275);
+    expect(scale.getFrequency(2)).toBeCloseTo(330);
+    expect(scale.equave.monzo.valueOf()).toBeCloseTo(2);
+    expect(reverseParseScale(scale)).toEqual(['275 Hz', '330.0 Hz', '440 Hz']);
+  });
+
+  it('formats frequencies with limited precision', () => {
+    const result = parseLine_('100 Hz + 1\\3', DEFAULT_NUMBER_OF_COMPONENTS, {
+      baseFrequency: 100,
+      frequencyFractionDigits: 2,
+    });
+    expect(result.frequencyString()).toBe('125.99 Hz');
+  });
+});
+
+describe('Scala file parser', () => {
+  it('parses a .scl file with comments, description and trailing text', () => {
+    const input = [
+      '! meanquar.scl',
+      '!',
+      "1/4-comma meantone scale. Pietro Aaron's temperament (1523)",
+      ' 4',
+      '!',
+      ' 76.04900 C#',
+      ' 5/4 E',
+      ' -10.',
+      ' 2',
+      '',
+    ].join('\r\n');
+    const {description, scale} = parseScalaFile(
+      input,
+      DEFAULT_NUMBER_OF_COMPONENTS
+    );
+    expect(description).toBe(
+      "1/4-comma meantone scale. Pietro Aaron's temperament (1523)"
+    );
+    expect(scale.size).toBe(4);
+    expect(scale.intervals[1].type).toBe('cents');
+    expect(scale.intervals[1].totalCents()).toBeCloseTo(76.049);
+    expect(scale.intervals[2].type).toBe('ratio');
+    expect(scale.intervals[2].monzo.toFraction().equals('5/4')).toBeTruthy();
+    expect(scale.intervals[3].totalCents()).toBeCloseTo(-10);
+    expect(scale.equave.type).toBe('ratio');
+    expect(scale.equave.monzo.toFraction().equals(2)).toBeTruthy();
+  });
+
+  it('keeps ratios exact', () => {
+    const input = ['', '2', '3486784401/3276800000', '2/1'].join('\n');
+    const {description, scale} = parseScalaFile(
+      input,
+      DEFAULT_NUMBER_OF_COMPONENTS
+    );
+    expect(description).toBe('');
+    expect(
+      scale.intervals[1].monzo.strictEquals(
+        ExtendedMonzo.fromFraction(
+          new Fraction(81, 80),
+          DEFAULT_NUMBER_OF_COMPONENTS
+        ).mul(5)
+      )
+    ).toBeTruthy();
+  });
+
+  it('validates the note count', () => {
+    expect(() =>
+      parseScalaFile('Bad\n3\n5/4\n2/1\n', DEFAULT_NUMBER_OF_COMPONENTS)
+    ).toThrow('Note count mismatch: declared 3, found 2');
+  });
+
+  it('rejects syntax that Scala does not understand', () => {
+    expect(() =>
+      parseScalaFile('SW2\n1\n7\\12\n', DEFAULT_NUMBER_OF_COMPONENTS)
+    ).toThrow();
+    expect(() =>
+      parseScalaFile('SW2\n1\n1,5\n', DEFAULT_NUMBER_OF_COMPONENTS)
+    ).toThrow();
+    expect(() =>
+      parseScalaFile('SW2\n1\n-3/2\n', DEFAULT_NUMBER_OF_COMPONENTS)
+    ).toThrow();
+    expect(() =>
+      parseScalaFile('SW2\n1\n.\n', DEFAULT_NUMBER_OF_COMPONENTS)
+    ).toThrow();
+  });
+
+  it('reports the line index of invalid pitches', () => {
+    expect.assertions(4);
+    try {
+      parseScalaFile(
+        '! test.scl\nSW2\n2\n 100.0\n 3/0 ratio\n',
+        DEFAULT_NUMBER_OF_COMPONENTS
+      );
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScaleParseError);
+      expect((error as ScaleParseError).reason).toBe(
+        PARSE_ERROR_REASON.INVALID_PITCH
+      );
+      expect((error as ScaleParseError).lineIndex).toBe(4);
+      expect((error as ScaleParseError).text).toBe('3/0');
+    }
+  });
+});
+
 describe('Chord enumerator', () => {
   it('parses a colon-separated string', () => {
     const scale = enumerateChord('4:5:6:7:8', DEFAULT_NUMBER_OF_COMPONENTS);
@@ -436,6 +817,21 @@ describe('Reverse parser', () => {
     expect(arraysEqual(lines, ['13/8 - 3/2', '2/1'])).toBeTruthy();
   });
 
+  it('preserves intended names with nested groups', () => {
+    const scale = parseScale(
+      ['-(3/2 + 5/4) + 2/1 * 2', '2/1 - (3/2 - (1\\12 + 5.))', '2/1'].join(
+        '\n'
+      ),
+      DEFAULT_NUMBER_OF_COMPONENTS
+    );
+    const lines = reverseParseScale(scale);
+    expect(lines).toEqual([
+      '-(3/2 + 5/4) + 2/1 * 2',
+      '2/1 - (3/2 - (1\\12 + 5.))',
+      '2/1',
+    ]);
+  });
+
   it('replaces intended names when parsing is impossible', () => {
     const scale = Scale.fromIntervalArray([
       new Interval(
@@ -462,3 +858,55 @@ describe('Reverse parser', () => {
     expect(arraysEqual(lines, ['13/12', '2/1'])).toBeTruthy();
   });
 });
+
+describe('Scala file exporter', () => {
+  it('converts SW2 syntax to ratios and cents', () => {
+    const scale = parseScale(
+      ['9/8', '7\\12', '[-1 1>', '1,5', '2/1'].join('\n'),
+      DEFAULT_NUMBER_OF_COMPONENTS
+    );
+    const file = reverseParseScalaFile(scale, 'Mixed', 3);
+    expect(file).toBe(
+      [
+        'Mixed',
+        ' 5',
+        '!',
+        ' 9/8',
+        ' 700.000',
+        ' 3/2',
+        ' 701.955',
+        ' 2/1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('writes names as trailing comments', () => {
+    const scale = parseScale(
+      ['5/4', '7\\12', '2/1'].join('\n'),
+      DEFAULT_NUMBER_OF_COMPONENTS
+    );
+    const file = reverseParseScalaFile(scale, '', 1, true);
+    expect(file).toBe(
+      ['', ' 3', '!', ' 5/4', ' 700.0 7\\12', ' 2/1', ''].join('\n')
+    );
+  });
+
+  it('round-trips through the Scala file parser', () => {
+    const scale = parseScale(
+      ['81/80', '3\\5<3>', '1234.5', '2/1'].join('\n'),
+      DEFAULT_NUMBER_OF_COMPONENTS
+    );
+    const file = reverseParseScalaFile(scale, '! Not a comment');
+    const {description, scale: parsed} = parseScalaFile(
+      file,
+      DEFAULT_NUMBER_OF_COMPONENTS
+    );
+    expect(description).toBe('! Not a comment');
+    expect(parsed.size).toBe(scale.size);
+    for (let i = 0; i <= scale.size; ++i) {
+      expect(parsed.getCents(i)).toBeCloseTo(scale.getCents(i));
+    }
+    expect(parsed.intervals[1].type).toBe('ratio');
+  });
+});
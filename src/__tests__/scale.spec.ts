@@ -1,7 +1,8 @@
 import {describe, it, expect} from 'vitest';
 
-import {ExtendedMonzo} from '../monzo';
-import {Scale} from '../scale';
+import {ExtendedMonzo, Val} from '../monzo';
+import {mosSignatures, Scale, WELL_TEMPERAMENTS} from '../scale';
+import {Temperament} from '../temperament';
 import {Interval, IntervalOptions} from '../interval';
 import {arraysEqual, Fraction, valueToCents} from 'xen-dev-utils';
 
@@ -502,6 +503,49 @@ describe('Scale', () => {
     expect(scale.getMonzo(3).toCents()).toBeCloseTo(1200.0);
     expect(scale.getMonzo(4).toCents()).toBeCloseTo(1600.0);
   });
+  it('keeps the step identity of stretched equal temperaments', () => {
+    const scale = Scale.fromFractionalTemperament(13, 1901.955, 3);
+    expect(scale.getInterval(5).type).toBe('equal temperament');
+    expect(scale.getInterval(5).toString()).toBe('5\\13<1901.955>');
+    expect(scale.equave.toString()).toBe('13\\13<1901.955>');
+    const rotated = scale.rotate(4);
+    expect(rotated.getInterval(1).toString()).toBe('1\\13<1901.955>');
+    expect(rotated.getInterval(12).toString()).toBe('12\\13<1901.955>');
+    const repeated = scale.repeat(2);
+    expect(repeated.getInterval(20).toString()).toBe('20\\13<1901.955>');
+    expect(repeated.equave.toString()).toBe('26\\13<1901.955>');
+  });
+  it('can equally divide equaves with a residual', () => {
+    const scale = Scale.fromEqualTemperament(5, new Fraction(13), 3);
+    expect(scale.getCents(5)).toBeCloseTo(valueToCents(13));
+    expect(scale.getInterval(2).toString()).toBe('2\\5<13>');
+    expect(scale.rotate(3).getInterval(4).toString()).toBe('4\\5<13>');
+  });
+  it('can equally divide arbitrary intervals', () => {
+    const cents = Scale.fromEqualDivision(
+      4,
+      new Interval(ExtendedMonzo.fromCents(1234.5, 3), 'cents')
+    );
+    expect(cents.intervals.map(interval => interval.toString())).toEqual([
+      '0\\4<1234.5>',
+      '1\\4<1234.5>',
+      '2\\4<1234.5>',
+      '3\\4<1234.5>',
+    ]);
+    const fifth = new Interval(
+      ExtendedMonzo.fromEqualTemperament(new Fraction(7, 12), 2, 3),
+      'equal temperament'
+    );
+    const fifthDivisions = Scale.fromEqualDivision(5, fifth);
+    expect(fifthDivisions.getInterval(1).toString()).toBe('7\\60');
+    expect(fifthDivisions.equave.toString()).toBe('35\\60');
+    expect(fifthDivisions.getCents(1)).toBeCloseTo(140);
+    const ratio = new Interval(ExtendedMonzo.fromFraction('13/8', 3), 'ratio');
+    expect(
+      Scale.fromEqualDivision(3, ratio).rotate(1).getInterval(2).toString()
+    ).toBe('2\\3<13/8>');
+    expect(() => Scale.fromEqualDivision(2.5, ratio)).toThrow();
+  });
   it('can generate rank 2', () => {
     const meantoneFifth = new Interval(
       ExtendedMonzo.fromEqualTemperament(
@@ -782,6 +826,123 @@ describe('Scale', () => {
       expect(marveldene.getMonzo(i).toFraction().toFraction()).toBe(ratio);
     });
   });
+  it('can generate tonality diamonds', () => {
+    const {scale, identities} = Scale.fromTonalityDiamond([1, 3, 5], 2, 3);
+    expect(scale.size).toBe(7);
+    [
+      ['1', '1/1, 3/3, 5/5'],
+      ['6/5', '3/5'],
+      ['5/4', '5/1'],
+      ['4/3', '1/3'],
+      ['3/2', '3/1'],
+      ['8/5', '1/5'],
+      ['5/3', '5/3'],
+    ].forEach(([ratio, label], i) => {
+      expect(scale.getMonzo(i).toFraction().toFraction()).toBe(ratio);
+      expect(scale.getInterval(i).type).toBe('ratio');
+      expect(
+        identities[i].map(pair => `${pair.otonal}/${pair.utonal}`).join(', ')
+      ).toBe(label);
+    });
+    expect(scale.intervals[1].name).toBe('6/5');
+    expect(scale.intervals[3].name).toBe('4/3');
+    expect(scale.equave.toString()).toBe('2/1');
+  });
+  it('can generate the 11-limit tonality diamond', () => {
+    const {scale, identities} = Scale.fromTonalityDiamond(
+      [1, 3, 5, 7, 9, 11],
+      2,
+      5
+    );
+    expect(scale.size).toBe(29);
+    expect(identities).toHaveLength(29);
+    const identitiesOf = (ratio: string) =>
+      identities[
+        scale.intervals.findIndex(
+          interval => interval.monzo.toFraction().toFraction() === ratio
+        )
+      ];
+    expect(identitiesOf('3/2')).toEqual([
+      {otonal: 3, utonal: 1},
+      {otonal: 9, utonal: 3},
+    ]);
+    expect(identitiesOf('12/7')).toEqual([{otonal: 3, utonal: 7}]);
+    expect(
+      scale.intervals.every(interval => interval.name === interval.toString())
+    ).toBe(true);
+  });
+  it('refuses to generate tonality diamonds from invalid identities', () => {
+    expect(() => Scale.fromTonalityDiamond([1, 3, 0], 2, 3)).toThrow();
+    expect(() => Scale.fromTonalityDiamond([1, 1.5], 2, 3)).toThrow();
+  });
+  it('can generate chains of comma-tempered generators', () => {
+    const ratio = (value: string | number) =>
+      new Interval(ExtendedMonzo.fromFraction(value, 3), 'ratio');
+    const scale = Scale.fromCommaChain(
+      ratio('3/2'),
+      ratio('81/80'),
+      [0, '1/2', '-1/2'],
+      1,
+      ratio(2)
+    );
+    expect(scale.intervals.map(interval => interval.toString())).toEqual([
+      '1/1',
+      '9/8',
+      '4/3',
+      '[1, -1, 1/2>',
+    ]);
+    expect(scale.intervals.map(interval => interval.type)).toEqual([
+      'ratio',
+      'ratio',
+      'ratio',
+      'monzo',
+    ]);
+    expect(() =>
+      Scale.fromCommaChain(ratio('3/2'), ratio('81/80'), [0], 2, ratio(2))
+    ).toThrow();
+  });
+  it('keeps quarter-comma meantone fifths exact', () => {
+    const meantone = Scale.fromWellTemperament('Quarter-comma meantone', 3);
+    expect(meantone.size).toBe(12);
+    const fifth = meantone.getMonzo(7);
+    expect(fifth.vector.map(component => component.toFraction())).toEqual([
+      '0',
+      '0',
+      '1/4',
+    ]);
+    expect(fifth.cents).toBe(0);
+    expect(meantone.getInterval(4).toString()).toBe('5/4');
+  });
+  it('can generate historical well temperaments', () => {
+    const werckmeister = Scale.fromWellTemperament('Werckmeister III', 3);
+    [
+      0, 90.225, 192.18, 294.135, 390.225, 498.045, 588.27, 696.09, 792.18,
+      888.27, 996.09, 1092.18, 1200,
+    ].forEach((cents, i) => {
+      expect(werckmeister.getCents(i)).toBeCloseTo(cents, 3);
+    });
+    const kirnberger = Scale.fromWellTemperament('Kirnberger III', 3);
+    expect(kirnberger.getInterval(4).toString()).toBe('5/4');
+    expect(kirnberger.getInterval(11).toString()).toBe('15/8');
+    expect(kirnberger.getCents(1)).toBeCloseTo(90.225, 3);
+    expect(kirnberger.getCents(8)).toBeCloseTo(792.18, 3);
+    for (const name of Object.keys(WELL_TEMPERAMENTS)) {
+      const scale = Scale.fromWellTemperament(name, 3);
+      expect(scale.size).toBe(12);
+      expect(scale.analyze().steps.every(step => step.totalCents() > 0)).toBe(
+        true
+      );
+    }
+    expect(() => Scale.fromWellTemperament('Equal', 3)).toThrow(
+      "Unknown well temperament 'Equal'"
+    );
+    expect(() => Scale.fromWellTemperament('toString', 3)).toThrow(
+      "Unknown well temperament 'toString'"
+    );
+    expect(() => Scale.fromWellTemperament('constructor', 3)).toThrow(
+      "Unknown well temperament 'constructor'"
+    );
+  });
   it('can generate Dwarf scales', () => {
     const scale = Scale.fromDwarf(7, 2, 0);
     ['1', '9/8', '5/4', '11/8', '3/2', '13/8', '7/4', '2'].forEach(
@@ -791,6 +952,79 @@ describe('Scale', () => {
     );
   });
 
+  it('can generate Dwarf scales from explicit vals', () => {
+    const scale = Scale.fromDwarf(Val.fromArray([7, 11, 16]), 2, 3);
+    ['1', '9/8', '5/4', '45/32', '3/2', '27/16', '15/8', '2'].forEach(
+      (ratio, i) => {
+        expect(scale.getMonzo(i).toFraction().toFraction()).toBe(ratio);
+      }
+    );
+  });
+
+  it('rejects vals that cannot generate Dwarf scales', () => {
+    expect(() => Scale.fromDwarf(Val.fromArray([12, 18, 28]), 2, 3)).toThrow();
+  });
+
+  it('summarizes the complexity of its degrees', () => {
+    const scale = Scale.fromIntervalArray(
+      ['9/8', '5/4', '4/3', '3/2', '5/3', '15/8', '2'].map(
+        ratio => new Interval(ExtendedMonzo.fromFraction(ratio, 3), 'ratio')
+      )
+    );
+    const complexity = scale.getComplexity();
+    expect(complexity.primeLimit).toBe(5);
+    expect(complexity.oddLimit).toBe(15);
+    expect(complexity.integerLimit).toBe(15);
+    expect(complexity.benedettiHeight).toBe(120);
+    expect(complexity.wilsonComplexity).toBe(14);
+  });
+
+  it('can be tempered by commas', () => {
+    const scale = Scale.fromIntervalArray(
+      ['9/8', '5/4', '4/3', '3/2', '5/3', '15/8', '2'].map(
+        ratio => new Interval(ExtendedMonzo.fromFraction(ratio, 3), 'ratio')
+      )
+    );
+    const tempered = scale.temper(
+      [new Interval(ExtendedMonzo.fromFraction('81/80', 3), 'ratio')],
+      [
+        new Interval(ExtendedMonzo.fromFraction(2, 3), 'ratio'),
+        new Interval(ExtendedMonzo.fromFraction('5/4', 3), 'ratio'),
+      ]
+    );
+    expect(tempered.getCents(2)).toBeCloseTo(386.314);
+    expect(tempered.getCents(4)).toBeCloseTo(696.578);
+    expect(tempered.getCents(7)).toBeCloseTo(1200);
+    // 9/8 and 10/9 become the same whole tone
+    expect(tempered.getCents(1)).toBeCloseTo(tempered.getCents(2) / 2);
+  });
+
+  it('can be generated from optimal temperament tunings', () => {
+    const meantone = Temperament.fromCommas([
+      ExtendedMonzo.fromFraction('81/80', 3),
+    ]);
+    const {generator, period, numPeriods} = meantone.toRank2(
+      meantone.getPOTETuning(),
+      3
+    );
+    const scale = Scale.fromRank2(generator, period, 7, 1, numPeriods);
+    expect(scale.size).toBe(7);
+    expect(scale.getCents(4)).toBeCloseTo(696.239, 3);
+    expect(scale.getCents(7)).toBeCloseTo(1200);
+  });
+
+  it('can be tempered to equal temperament', () => {
+    const scale = Scale.fromIntervalArray(
+      ['6/5', '3/2', '2'].map(
+        ratio => new Interval(ExtendedMonzo.fromFraction(ratio, 3), 'ratio')
+      )
+    );
+    const tempered = scale.temper(
+      new Temperament([Val.fromArray([12, 19, 28])])
+    );
+    expect(tempered.toStrings()).toEqual(['3\\12', '7\\12', '12\\12']);
+  });
+
   it('supports a MOS scale', () => {
     const octave = new Interval(ExtendedMonzo.fromFraction(2, 1), 'ratio');
     const steps = [1, 3, 4, 6, 7, 9, 10];
@@ -1133,6 +1367,41 @@ describe('Scale', () => {
     expect(scale.getCents(2)).toBeCloseTo(valueToCents(9));
   });
 
+  it('can reproduce random variance from a seed', () => {
+    const scale = Scale.fromEqualTemperament(12, new Fraction(2), 1);
+    const a = scale.vary(10, true, {seed: 7, distribution: 'gaussian'});
+    const b = scale.vary(10, true, {seed: 7, distribution: 'gaussian'});
+    expect(a.toJSON()).toEqual(b.toJSON());
+    expect(a.intervals[0].totalCents()).toBe(0);
+    const offsets = a.intervals.slice(1).map(interval => interval.monzo.cents);
+    expect(new Set(offsets).size).toBe(offsets.length);
+  });
+
+  it('can vary in frequency-space relative to the base frequency', () => {
+    const scale = Scale.fromIntervalArray(
+      [
+        new Interval(ExtendedMonzo.fromFraction('3/2', 2), 'ratio'),
+        new Interval(ExtendedMonzo.fromFraction(2, 2), 'ratio'),
+      ],
+      220
+    ).vary(3, false, {random: () => 1 / 3, frequencySpace: true});
+    expect(scale.getFrequency(1)).toBeCloseTo(329);
+    expect(scale.getFrequency(2)).toBeCloseTo(440);
+  });
+
+  it('can vary in frequency-space by more than the base frequency', () => {
+    const scale = Scale.fromIntervalArray(
+      [
+        new Interval(ExtendedMonzo.fromFraction('3/2', 2), 'ratio'),
+        new Interval(ExtendedMonzo.fromFraction(2, 2), 'ratio'),
+      ],
+      220
+    ).vary(1000, true, {seed: 3, frequencySpace: true});
+    for (let i = 0; i <= 2; ++i) {
+      expect(scale.getFrequency(i)).toBeGreaterThan(0);
+    }
+  });
+
   it('respells the equave when approximated in equal temperament', () => {
     const scale = Scale.fromIntervalArray([
       new Interval(
@@ -1157,6 +1426,330 @@ describe('Scale', () => {
     expect(scale.getName(0)).toBe('0\\22<1>');
   });
 
+  it('normalizes the number of components when merging', () => {
+    const pentatonic = Scale.fromIntervalArray(
+      ['9/8', '4/3', '3/2', '16/9', '2'].map(
+        ratio => new Interval(ExtendedMonzo.fromFraction(ratio, 2), 'ratio')
+      )
+    );
+    const septimal = Scale.fromIntervalArray(
+      ['7/6', '4/3', '7/4', '2'].map(
+        ratio => new Interval(ExtendedMonzo.fromFraction(ratio, 4), 'ratio')
+      )
+    );
+    const merged = pentatonic.merge(septimal);
+    expect(merged.numberOfComponents).toBe(4);
+    expect(merged.toStrings()).toEqual([
+      '9/8',
+      '7/6',
+      '4/3',
+      '3/2',
+      '7/4',
+      '16/9',
+      '2/1',
+    ]);
+    merged.intervals.forEach(interval =>
+      expect(interval.monzo.residual.equals(1)).toBeTruthy()
+    );
+  });
+
+  it('deduplicates sets of intervals by size', () => {
+    const fifth = new Interval(ExtendedMonzo.fromFraction('3/2', 3), 'ratio');
+    const sameFifth = new Interval(
+      new ExtendedMonzo([], new Fraction(3, 2)),
+      'ratio'
+    );
+    const third = new Interval(ExtendedMonzo.fromFraction('5/4', 3), 'ratio');
+    const octave = new Interval(ExtendedMonzo.fromFraction(2, 3), 'ratio');
+    const scale = Scale.fromCrossPolytope(
+      new Set([fifth, sameFifth, third]),
+      true,
+      octave
+    );
+    expect(scale.size).toBe(5);
+    const cps = Scale.fromCombinations(
+      new Set([fifth, sameFifth, third]),
+      1,
+      true,
+      octave
+    );
+    expect(cps.size).toBe(3);
+  });
+
+  it('removes duplicates across representations', () => {
+    const scale = Scale.fromIntervalArray([
+      new Interval(ExtendedMonzo.fromFraction('81/80', 3), 'ratio'),
+      new Interval(new ExtendedMonzo([], new Fraction(81, 80)), 'ratio'),
+      new Interval(ExtendedMonzo.fromFraction(2, 3), 'ratio'),
+    ]);
+    expect(scale.size).toBe(3);
+    scale.removeDuplicatesInPlace();
+    expect(scale.size).toBe(2);
+  });
+
+  it('removes duplicates straddling a size bucket boundary', () => {
+    const a = new Interval(ExtendedMonzo.fromCents(100.0000000006, 3), 'cents');
+    const b = new Interval(ExtendedMonzo.fromCents(100.0000000004, 3), 'cents');
+    expect(a.equals(b)).toBeTruthy();
+    expect(a.hashKey()).not.toBe(b.hashKey());
+    const octave = new Interval(ExtendedMonzo.fromCents(1200, 3), 'cents');
+    const scale = Scale.fromIntervalArray([a, b, octave]);
+    scale.removeDuplicatesInPlace();
+    expect(scale.size).toBe(2);
+  });
+
+  it('can be serialized and revived', () => {
+    const scale = Scale.fromIntervalArray(
+      [
+        new Interval(ExtendedMonzo.fromFraction('9/8', 3), 'ratio', 'tone'),
+        new Interval(
+          ExtendedMonzo.fromEqualTemperament('7/12', 2, 3),
+          'equal temperament'
+        ),
+        new Interval(ExtendedMonzo.fromFraction(2, 3), 'ratio'),
+      ],
+      432
+    );
+    const json = JSON.stringify(scale);
+    const revived = Scale.fromJSON(JSON.parse(json));
+    expect(revived.baseFrequency).toBe(432);
+    expect(revived.size).toBe(3);
+    expect(revived.getName(1)).toBe('tone');
+    expect(revived.intervals[2].type).toBe('equal temperament');
+    expect(revived.equave.strictEquals(scale.equave)).toBeTruthy();
+    expect(revived.toStrings()).toEqual(scale.toStrings());
+    expect(Scale.fromJSON(structuredClone(scale.toJSON())).toJSON()).toEqual(
+      scale.toJSON()
+    );
+  });
+
+  it('can construct a moment-of-symmetry scale in equal temperament', () => {
+    const ionian = Scale.fromMos('5L 2s', '2:1', '5|1', new Fraction(2), 3);
+    expect(ionian.toStrings()).toEqual([
+      '2\\12',
+      '4\\12',
+      '5\\12',
+      '7\\12',
+      '9\\12',
+      '11\\12',
+      '12\\12',
+    ]);
+    const lydian = Scale.fromMos(
+      '5L 2s',
+      [3, 2],
+      undefined,
+      new Fraction(2),
+      3
+    );
+    expect(lydian.toStrings()).toEqual([
+      '3\\19',
+      '6\\19',
+      '9\\19',
+      '11\\19',
+      '14\\19',
+      '17\\19',
+      '19\\19',
+    ]);
+  });
+
+  it('can construct a multi-period moment-of-symmetry scale', () => {
+    const scale = Scale.fromMos('4L 4s', 2, '0|4(4)', new Fraction(2), 3);
+    expect(scale.toStrings()).toEqual([
+      '1\\12',
+      '3\\12',
+      '4\\12',
+      '6\\12',
+      '7\\12',
+      '9\\12',
+      '10\\12',
+      '12\\12',
+    ]);
+    expect(() =>
+      Scale.fromMos('4L 4s', 2, '1|3', new Fraction(2), 3)
+    ).toThrow();
+  });
+
+  it('refuses to collapse the small step of a moment-of-symmetry scale', () => {
+    expect(() =>
+      Scale.fromMos('5L 2s', [1, 0], undefined, new Fraction(2), 3)
+    ).toThrow('Small step must be positive');
+    expect(() =>
+      Scale.fromMos('5L 2s', '1:0', undefined, new Fraction(2), 3)
+    ).toThrow('Small step must be positive');
+    expect(() =>
+      Scale.fromMos('5L 2s', Infinity, undefined, new Fraction(2), 3)
+    ).toThrow();
+  });
+
+  it('can construct a moment-of-symmetry scale with irrational hardness', () => {
+    const phi = (1 + Math.sqrt(5)) / 2;
+    const scale = Scale.fromMos('5L 2s', phi, '0|6', new Fraction(2), 3);
+    const small = 1200 / (5 * phi + 2);
+    expect(scale.getCents(1)).toBeCloseTo(small);
+    expect(scale.getCents(2)).toBeCloseTo(small + phi * small);
+    expect(scale.intervals[1].type).toBe('cents');
+    expect(scale.equave.toString()).toBe('2/1');
+  });
+
+  it('can enumerate moment-of-symmetry step signatures', () => {
+    const fifth = new Interval(ExtendedMonzo.fromFraction('3/2', 3), 'ratio');
+    const octave = new Interval(ExtendedMonzo.fromFraction(2, 3), 'ratio');
+    expect(mosSignatures(fifth, octave, 41)).toEqual([
+      '1L 1s',
+      '2L 1s',
+      '2L 3s',
+      '5L 2s',
+      '5L 7s',
+      '12L 5s',
+      '12L 17s',
+      '12L 29s',
+    ]);
+    const etFifth = new Interval(
+      ExtendedMonzo.fromEqualTemperament('7/12', 2, 3),
+      'equal temperament'
+    );
+    expect(mosSignatures(etFifth, octave)).toEqual([
+      '1L 1s',
+      '2L 1s',
+      '2L 3s',
+      '5L 2s',
+      '1L 10s',
+    ]);
+  });
+
+  it('can analyze the structure of a diatonic scale', () => {
+    const ionian = Scale.fromMos('5L 2s', '2:1', '5|1', new Fraction(2), 3);
+    const structure = ionian.analyze();
+    expect(structure.steps.map(step => step.toString())).toEqual([
+      '2\\12',
+      '2\\12',
+      '1\\12',
+      '2\\12',
+      '2\\12',
+      '2\\12',
+      '1\\12',
+    ]);
+    expect(structure.stepClasses.map(step => step.toString())).toEqual([
+      '2\\12',
+      '1\\12',
+    ]);
+    expect(structure.pattern).toBe('LLsLLLs');
+    expect(structure.isMos).toBe(true);
+    expect(structure.propriety).toBe('proper');
+    expect(structure.stability).toBeCloseTo(40 / 42);
+    expect(structure.constantStructure).toBe(false);
+    expect(structure.spans[3].generic).toBe(4);
+    expect(structure.spans[3].sizes.map(size => size.toString())).toEqual([
+      '6\\12',
+      '7\\12',
+    ]);
+  });
+
+  it('can analyze the structure of just intonation scales', () => {
+    const ratios = (...fractions: string[]) =>
+      fractions.map(
+        fraction =>
+          new Interval(ExtendedMonzo.fromFraction(fraction, 3), 'ratio')
+      );
+    const zarlino = Scale.fromIntervalArray(
+      ratios('9/8', '5/4', '4/3', '3/2', '5/3', '15/8', '2')
+    ).analyze();
+    expect(zarlino.pattern).toBe('LMsLMLs');
+    expect(zarlino.isMos).toBe(false);
+    expect(zarlino.propriety).toBe('strict');
+    expect(zarlino.stability).toBe(1);
+    expect(zarlino.constantStructure).toBe(true);
+
+    const pythagorean = Scale.fromRank2(
+      ratios('3/2')[0],
+      ratios('2')[0],
+      7,
+      1
+    ).analyze();
+    expect(pythagorean.pattern).toBe('LLsLLLs');
+    expect(pythagorean.isMos).toBe(true);
+    expect(pythagorean.propriety).toBe('improper');
+    expect(pythagorean.stability).toBeCloseTo(40 / 42);
+    expect(pythagorean.constantStructure).toBe(true);
+  });
+
+  it('analyzes intervals with offsets up to a tolerance', () => {
+    const structure = Scale.fromFractionalTemperament(12, 1200, 3)
+      .vary(1e-11, false, {seed: 1})
+      .analyze();
+    expect(structure.pattern).toBe('LLLLLLLLLLLL');
+    expect(structure.stepClasses).toHaveLength(1);
+    expect(structure.isMos).toBe(false);
+    expect(structure.propriety).toBe('strict');
+  });
+
+  it('compares near-equal intervals up to a given tolerance', () => {
+    const scale = Scale.fromIntervalArray(
+      [200, 400.02, 500, 700, 900, 1100, 1200].map(
+        cents => new Interval(ExtendedMonzo.fromCents(cents, 1), 'cents')
+      )
+    );
+    const strict = scale.analyze();
+    expect(strict.pattern).toBe('badbbbc');
+    expect(strict.isMos).toBe(false);
+
+    const lenient = scale.analyze(0.1);
+    expect(lenient.pattern).toBe('LLsLLLs');
+    expect(lenient.stepClasses).toHaveLength(2);
+    expect(lenient.isMos).toBe(true);
+    expect(lenient.propriety).toBe('proper');
+    expect(lenient.stability).toBeCloseTo(40 / 42);
+    expect(lenient.constantStructure).toBe(false);
+  });
+
+  it('refuses to analyze unsorted scales', () => {
+    const scale = Scale.fromIntervalArray([
+      new Interval(ExtendedMonzo.fromFraction('3/2', 3), 'ratio'),
+      new Interval(ExtendedMonzo.fromFraction('5/4', 3), 'ratio'),
+      new Interval(ExtendedMonzo.fromFraction(2, 3), 'ratio'),
+    ]);
+    expect(() => scale.analyze()).toThrow();
+  });
+
+  it('can calculate the interval matrix of a scale', () => {
+    const scale = Scale.fromIntervalArray([
+      new Interval(ExtendedMonzo.fromFraction('5/4', 3), 'ratio'),
+      new Interval(ExtendedMonzo.fromFraction('3/2', 3), 'ratio'),
+      new Interval(ExtendedMonzo.fromFraction(2, 3), 'ratio'),
+    ]);
+    const matrix = scale.intervalMatrix();
+    expect(matrix.map(row => row.map(interval => interval.toString()))).toEqual(
+      [
+        ['1/1', '5/4', '3/2', '2/1'],
+        ['1/1', '6/5', '8/5', '2/1'],
+        ['1/1', '4/3', '5/3', '2/1'],
+      ]
+    );
+    expect(matrix.flat().every(interval => interval.type === 'ratio')).toBe(
+      true
+    );
+    const cents = scale.centsMatrix();
+    expect(cents[1][1]).toBeCloseTo(315.641287);
+    expect(cents[2][3]).toBeCloseTo(1200);
+  });
+
+  it('can list the modes of a scale', () => {
+    const ionian = Scale.fromMos('5L 2s', '2:1', '5|1', new Fraction(2), 3);
+    const modes = ionian.modes();
+    expect(modes.map(mode => mode.pattern)).toEqual([
+      'LLsLLLs',
+      'LsLLLsL',
+      'sLLLsLL',
+      'LLLsLLs',
+      'LLsLLsL',
+      'LsLLsLL',
+      'sLLsLLL',
+    ]);
+    expect(modes[1].scale.size).toBe(7);
+    expect(modes[1].scale.getInterval(2).toString()).toBe('3\\12');
+    expect(modes[1].scale.equave.toString()).toBe('12\\12');
+  });
+
   it('can calculate the ratio and cents gamuts of a complex scale', () => {
     const scale = Scale.fromIntervalArray([
       new Interval(
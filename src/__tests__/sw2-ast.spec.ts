@@ -60,6 +60,14 @@ describe('Scale Workshop 2 Abstract Syntax Tree Parser', () => {
     expect(ast.equave.value).toBe(3);
   });
 
+  it('parses EDJI fractions with equaves in cents', () => {
+    const ast = parse('13\\13<1901.955>');
+    expect(ast.type).toBe('EdjiFraction');
+    expect(ast.equave.type).toBe('CentsLiteral');
+    expect(ast.equave.whole).toBe(1901);
+    expect(ast.equave.fractional).toBe('955');
+  });
+
   it('parses space-separated numbers between a square and an angle bracket as monzos', () => {
     const ast = parse('[-4 4 -1>');
     expect(ast.type).toBe('Monzo');
@@ -93,4 +101,80 @@ describe('Scale Workshop 2 Abstract Syntax Tree Parser', () => {
     expect(ast.type).toBe('BinaryExpression');
     expect(ast.operator).toBe('-');
   });
+
+  it('parses scalar multiplication', () => {
+    const ast = parse('3/2 * 3');
+    expect(ast.type).toBe('BinaryExpression');
+    expect(ast.operator).toBe('*');
+    expect(ast.left.type).toBe('FractionLiteral');
+    expect(ast.right.type).toBe('FractionLiteral');
+    expect(ast.right.numerator).toBe(3);
+    expect(ast.right.denominator).toBe(1);
+  });
+
+  it('parses scalar division with either operator', () => {
+    for (const input of ['[-4 4 -1> % 2', '[-4 4 -1> ÷ 2']) {
+      const ast = parse(input);
+      expect(ast.type).toBe('BinaryExpression');
+      expect(ast.operator).toBe('%');
+      expect(ast.left.type).toBe('Monzo');
+      expect(ast.right.numerator).toBe(2);
+    }
+  });
+
+  it('gives scalar operators precedence over addition', () => {
+    const ast = parse('2/1 - 7\\12 × -1/2');
+    expect(ast.type).toBe('BinaryExpression');
+    expect(ast.operator).toBe('-');
+    expect(ast.left.type).toBe('FractionLiteral');
+    expect(ast.right.type).toBe('BinaryExpression');
+    expect(ast.right.operator).toBe('*');
+    expect(ast.right.left.type).toBe('EdjiFraction');
+    expect(ast.right.right.numerator).toBe(-1);
+    expect(ast.right.right.denominator).toBe(2);
+  });
+
+  it('parses parenthesized expressions', () => {
+    const ast = parse('2/1 - (3/2 + 1\\12)');
+    expect(ast.type).toBe('BinaryExpression');
+    expect(ast.operator).toBe('-');
+    expect(ast.right.type).toBe('ParenthesizedExpression');
+    expect(ast.right.expression.type).toBe('BinaryExpression');
+    expect(ast.right.expression.operator).toBe('+');
+  });
+
+  it('parses unary negated groups', () => {
+    const ast = parse('-( (3/2 + 5/4) )');
+    expect(ast.type).toBe('UnaryExpression');
+    expect(ast.operand.type).toBe('ParenthesizedExpression');
+    expect(ast.operand.expression.type).toBe('ParenthesizedExpression');
+    expect(ast.operand.expression.expression.type).toBe('BinaryExpression');
+  });
+
+  it('parses absolute frequencies', () => {
+    const ast = parse('261.6 Hz');
+    expect(ast.type).toBe('FrequencyLiteral');
+    expect(ast.whole).toBe(261);
+    expect(ast.fractional).toBe('6');
+  });
+
+  it('parses absolute frequencies without whitespace', () => {
+    const ast = parse('660Hz');
+    expect(ast.type).toBe('FrequencyLiteral');
+    expect(ast.whole).toBe(660);
+    expect(ast.fractional).toBe(null);
+  });
+
+  it('parses monzos with subgroup bases', () => {
+    const ast = parse('[1 -1>@2.9/7.5');
+    expect(ast.type).toBe('Monzo');
+    expect(ast.components).toEqual(['1', '-1']);
+    expect(ast.basis).toEqual(['2', '9/7', '5']);
+  });
+
+  it('parses vals in bra notation', () => {
+    const ast = parse('<12, 19 28]', {startRule: 'Val'});
+    expect(ast.type).toBe('Val');
+    expect(ast.components).toEqual(['12', '19', '28']);
+  });
 });
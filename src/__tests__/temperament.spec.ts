@@ -0,0 +1,126 @@
+import {describe, it, expect} from 'vitest';
+import {Fraction} from 'xen-dev-utils';
+
+import {ExtendedMonzo, Val} from '../monzo';
+import {Temperament} from '../temperament';
+
+function monzo(fraction: string, numberOfComponents = 3) {
+  return ExtendedMonzo.fromFraction(new Fraction(fraction), numberOfComponents);
+}
+
+describe('Temperament', () => {
+  it('can be constructed from commas', () => {
+    const meantone = Temperament.fromCommas([monzo('81/80')]);
+    expect(meantone.rank).toBe(2);
+    expect(meantone.numberOfComponents).toBe(3);
+    expect(meantone.mapping.map(val => val.toString())).toEqual([
+      '<1 0 -4]',
+      '<0 1 4]',
+    ]);
+  });
+
+  it('reduces vals to a canonical form', () => {
+    const meantone = new Temperament([
+      Val.fromArray([12, 19, 28]),
+      Val.fromArray([7, 11, 16]),
+      Val.fromArray([19, 30, 44]),
+    ]);
+    expect(meantone.rank).toBe(2);
+    expect(meantone.mapping.map(val => val.toString())).toEqual([
+      '<1 0 -4]',
+      '<0 1 4]',
+    ]);
+  });
+
+  it('recovers the commas of a mapping', () => {
+    const commas = new Temperament([Val.fromArray([12, 19, 28])]).getCommas();
+    expect(commas).toHaveLength(2);
+    commas.forEach(comma => {
+      expect(Val.fromArray([12, 19, 28]).map(comma).equals(0)).toBeTruthy();
+    });
+  });
+
+  it('tempers out commas', () => {
+    const meantone = Temperament.fromCommas([monzo('81/80')]);
+    const generators = meantone.getGenerators([monzo('2'), monzo('5/4')]);
+    // Quarter-comma meantone
+    const fifth = meantone.temper(monzo('3/2'), generators);
+    expect(fifth.vector.map(c => c.toFraction())).toEqual(['0', '0', '1/4']);
+    expect(fifth.totalCents()).toBeCloseTo(696.578);
+    const comma = meantone.temper(monzo('81/80'), generators);
+    expect(comma.totalCents()).toBeCloseTo(0);
+  });
+
+  it('tempers to equal temperament', () => {
+    const twelve = new Temperament([Val.fromArray([12, 19, 28])]);
+    const fifth = twelve.temper(monzo('3/2', 25));
+    expect(fifth.numberOfComponents).toBe(25);
+    expect(fifth.toEqualTemperament()[0].toFraction()).toBe('7/12');
+  });
+
+  it('keeps primes pure by default', () => {
+    const meantone = Temperament.fromCommas([monzo('81/80')]);
+    expect(meantone.temper(monzo('3/2')).totalCents()).toBeCloseTo(701.955);
+    expect(meantone.temper(monzo('5/4')).totalCents()).toBeCloseTo(407.82);
+  });
+
+  it('throws outside of the prime limit', () => {
+    const meantone = Temperament.fromCommas([monzo('81/80')]);
+    expect(() => meantone.temper(monzo('7/4', 4))).toThrow();
+  });
+
+  it('throws when the intervals to keep pure are not independent', () => {
+    const meantone = Temperament.fromCommas([monzo('81/80')]);
+    expect(() =>
+      meantone.getGenerators([monzo('81/64'), monzo('5/4')])
+    ).toThrow();
+  });
+});
+
+describe('Temperament tunings', () => {
+  const meantone = Temperament.fromCommas([monzo('81/80')]);
+
+  it('calculates the TE tuning', () => {
+    const [octave, twelfth] = meantone.getTETuning();
+    expect(octave).toBeCloseTo(1201.397, 3);
+    expect(twelfth).toBeCloseTo(1898.446, 3);
+  });
+
+  it('calculates the POTE tuning', () => {
+    const [octave, twelfth] = meantone.getPOTETuning();
+    expect(octave).toBeCloseTo(1200, 6);
+    expect(twelfth - octave).toBeCloseTo(696.239, 3);
+  });
+
+  it('calculates the CTE tuning', () => {
+    const [octave, twelfth] = meantone.getCTETuning();
+    expect(octave).toBeCloseTo(1200, 6);
+    expect(twelfth - octave).toBeCloseTo(697.214, 3);
+  });
+
+  it('calculates the TOP tuning', () => {
+    const [octave, twelfth] = meantone.getTOPTuning();
+    expect(octave).toBeCloseTo(1201.699, 3);
+    expect(twelfth).toBeCloseTo(1899.263, 3);
+  });
+
+  it('calculates tunings of equal temperaments', () => {
+    const twelve = new Temperament([Val.fromArray([12, 19, 28])]);
+    expect(twelve.getPOTETuning()[0]).toBeCloseTo(100);
+    expect(twelve.getTETuning()[0]).toBeCloseTo(99.87, 2);
+  });
+
+  it('converts rank-2 tunings to period and generator', () => {
+    const pajara = Temperament.fromCommas([
+      monzo('50/49', 4),
+      monzo('64/63', 4),
+    ]);
+    const {generator, period, numPeriods} = pajara.toRank2(
+      pajara.getPOTETuning(),
+      4
+    );
+    expect(numPeriods).toBe(2);
+    expect(period.totalCents()).toBeCloseTo(600);
+    expect(generator.mmod(period).totalCents()).toBeCloseTo(107.048, 2);
+  });
+});
@@ -0,0 +1,79 @@
+import {describe, it, expect} from 'vitest';
+
+import {parseAnaMarkTun, reverseParseAnaMarkTun} from '../tun';
+import {parseScale} from '../parser';
+
+describe('AnaMark .tun exporter', () => {
+  it('writes the absolute tuning of all keys', () => {
+    const scale = parseScale('9/8\n5/4\n2/1', 3, 440);
+    const lines = reverseParseAnaMarkTun(scale, 69, 'Tri', 1).split('\n');
+    expect(lines[0]).toBe('[Tuning]');
+    expect(lines).toContain('note 69=6900');
+    expect(lines).toContain('note 70=7104');
+    expect(lines).toContain('[Exact Tuning]');
+    expect(lines).toContain('BaseFreq=8.1757989156');
+    expect(lines).toContain('note 71=7286.313714');
+    expect(lines).toContain('note 72=8100.000000');
+    expect(lines).not.toContain('[Functional Tuning]');
+  });
+
+  it('writes the functional tuning in version 2', () => {
+    const scale = parseScale('9/8\n5/4\n2/1', 3, 440);
+    const file = reverseParseAnaMarkTun(scale, 69, 'Tri');
+    const lines = file.split('\n');
+    expect(lines[0]).toBe('[Scale Begin]');
+    expect(lines).toContain('FormatVersion= 200');
+    expect(lines).toContain('Name= "Tri"');
+    expect(lines).toContain('[Functional Tuning]');
+    expect(lines).toContain('note 1="#>-1 % 203.910002"');
+    expect(lines).toContain('note 2="#>-2 % 386.313714"');
+    expect(lines).toContain('note 3="#>-3 % 1200.000000 ~999"');
+    expect(lines).toContain('note 69="! 440.000000"');
+    expect(lines[lines.length - 2]).toBe('[Scale End]');
+  });
+});
+
+describe('AnaMark .tun parser', () => {
+  it('round-trips the functional tuning', () => {
+    const scale = parseScale('9/8\n5/4\n3/2 + 1.5\n2/1', 3, 261.6);
+    const file = reverseParseAnaMarkTun(scale, 60, 'Tetra');
+    const {name, scale: parsed, baseMidiNote} = parseAnaMarkTun(file, 3);
+    expect(name).toBe('Tetra');
+    expect(baseMidiNote).toBe(60);
+    expect(parsed.size).toBe(4);
+    expect(parsed.baseFrequency).toBeCloseTo(261.6);
+    for (let i = 0; i <= scale.size; ++i) {
+      expect(parsed.getCents(i)).toBeCloseTo(scale.getCents(i));
+    }
+    expect(parsed.intervals[1].type).toBe('cents');
+  });
+
+  it('falls back to the absolute tuning', () => {
+    const scale = parseScale('9/8\n5/4\n2/1', 3, 440);
+    const file = reverseParseAnaMarkTun(scale, 69, '', 1);
+    const {scale: parsed, baseMidiNote} = parseAnaMarkTun(file, 3);
+    expect(baseMidiNote).toBe(0);
+    expect(parsed.size).toBe(127);
+    const original = scale.getFrequencyRange(-69, 128 - 69);
+    for (let i = 0; i < 128; ++i) {
+      expect(parsed.getFrequency(i) / original[i]).toBeCloseTo(1);
+    }
+  });
+
+  it('parses a minimal version 1 file with comments and missing notes', () => {
+    const file = [
+      '; VAZ tuning',
+      '[TUNING]',
+      'Note 0 = 50',
+      '',
+      '[Exact Tuning]',
+      'basefreq = 10',
+      'note 1 = 150.5',
+    ].join('\r\n');
+    const {name, scale} = parseAnaMarkTun(file, 3);
+    expect(name).toBe('');
+    expect(scale.baseFrequency).toBeCloseTo(10 * 2 ** (50 / 1200));
+    expect(scale.getCents(1)).toBeCloseTo(100.5);
+    expect(scale.getCents(2)).toBeCloseTo(150);
+  });
+});
@@ -0,0 +1,381 @@
+import {
+  Fraction,
+  FractionValue,
+  toMonzoAndResidual,
+  valueToCents,
+} from 'xen-dev-utils';
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * Calculate the greatest common divisor of two big integers.
+ * @param a The first integer.
+ * @param b The second integer.
+ * @returns The largest non-negative integer that divides both `a` and `b`.
+ */
+function bigGcd(a: bigint, b: bigint) {
+  if (a < ZERO) {
+    a = -a;
+  }
+  if (b < ZERO) {
+    b = -b;
+  }
+  while (b) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * Calculate the binary logarithm of a big integer without converting it to an unsafe float first.
+ * @param n Positive integer.
+ * @returns Approximate value of log2(n).
+ */
+export function bigLog2(n: bigint) {
+  const bits = n.toString(2).length;
+  if (bits <= 53) {
+    return Math.log2(Number(n));
+  }
+  return Math.log2(Number(n >> BigInt(bits - 53))) + bits - 53;
+}
+
+/**
+ * Calculate an exact integer root of a big integer.
+ * @param n Non-negative integer.
+ * @param degree Degree of the root.
+ * @returns The integer `r` such that `r ** degree === n` or `null` if no such integer exists.
+ */
+function bigRoot(n: bigint, degree: number) {
+  if (n < TWO || degree === 1) {
+    return n;
+  }
+  const d = BigInt(degree);
+  const d1 = d - ONE;
+  // Newton's method starting from an overestimate
+  let x = ONE << BigInt(Math.ceil(n.toString(2).length / degree));
+  for (;;) {
+    const y = (d1 * x + n / x ** d1) / d;
+    if (y >= x) {
+      break;
+    }
+    x = y;
+  }
+  return x ** d === n ? x : null;
+}
+
+/**
+ * Arbitrary-precision rational number backed by big integers.
+ *
+ * Used to represent residuals and ratios that are too complex for the sanity limits of {@link Fraction}.
+ */
+export class BigFraction {
+  n: bigint;
+  d: bigint;
+
+  /**
+   * Construct a rational number in lowest terms.
+   * @param numerator Numerator of the rational number.
+   * @param denominator Denominator of the rational number.
+   * @throws An error if the denominator is zero.
+   */
+  constructor(numerator: bigint, denominator = ONE) {
+    if (denominator === ZERO) {
+      throw new Error('Division by Zero');
+    }
+    if (denominator < ZERO) {
+      numerator = -numerator;
+      denominator = -denominator;
+    }
+    const divisor = bigGcd(numerator, denominator);
+    this.n = numerator / divisor;
+    this.d = denominator / divisor;
+  }
+
+  /**
+   * Construct an arbitrary-precision rational number from a regular fraction or an integer.
+   * @param value Value to convert.
+   * @returns The value as a big fraction.
+   */
+  static from(value: FractionValue | BigFraction | bigint) {
+    if (value instanceof BigFraction) {
+      return value;
+    }
+    if (typeof value === 'bigint') {
+      return new BigFraction(value);
+    }
+    const fraction = new Fraction(value);
+    return new BigFraction(BigInt(fraction.s * fraction.n), BigInt(fraction.d));
+  }
+
+  /**
+   * Parse an arbitrary-precision rational number from a string.
+   * @param value String like "13/7" or "-3".
+   * @returns The parsed big fraction.
+   * @throws An error if the string is not a valid fraction.
+   */
+  static fromString(value: string) {
+    const match = value.match(/^\s*(-?\d+)\s*(?:\/\s*(\d+)\s*)?$/);
+    if (match === null) {
+      throw new Error(`Invalid fraction '${value}'`);
+    }
+    return new BigFraction(BigInt(match[1]), BigInt(match[2] ?? 1));
+  }
+
+  /**
+   * Check if the rational number fits within the sanity limits of {@link Fraction}.
+   * @returns `true` if both the numerator and the denominator are safe integers.
+   */
+  isSafe() {
+    return this.n <= MAX_SAFE && -this.n <= MAX_SAFE && this.d <= MAX_SAFE;
+  }
+
+  /**
+   * Convert the rational number to a regular fraction.
+   * @returns The rational number as a {@link Fraction}.
+   * @throws An error if the rational number exceeds the sanity limits of {@link Fraction}.
+   */
+  toFraction() {
+    if (!this.isSafe()) {
+      throw new Error('Fraction above safe limit');
+    }
+    return new Fraction(Number(this.n), Number(this.d));
+  }
+
+  /**
+   * Multiply the rational number with another.
+   * @param other Another rational number.
+   * @returns The product of the rational numbers.
+   */
+  mul(other: FractionValue | BigFraction) {
+    const other_ = BigFraction.from(other);
+    return new BigFraction(this.n * other_.n, this.d * other_.d);
+  }
+
+  /**
+   * Divide the rational number by another.
+   * @param other Another rational number.
+   * @returns The quotient of the rational numbers.
+   * @throws An error if the other rational number is zero.
+   */
+  div(other: FractionValue | BigFraction) {
+    const other_ = BigFraction.from(other);
+    return new BigFraction(this.n * other_.d, this.d * other_.n);
+  }
+
+  /**
+   * Calculate the multiplicative inverse of the rational number.
+   * @returns The reciprocal of the rational number.
+   * @throws An error if the rational number is zero.
+   */
+  inverse() {
+    return new BigFraction(this.d, this.n);
+  }
+
+  /**
+   * Raise the rational number to a rational power.
+   * @param exponent Exponent of the power.
+   * @returns The power as a big fraction or `null` if the result is irrational.
+   */
+  pow(exponent: FractionValue) {
+    const exponent_ = new Fraction(exponent);
+    const base = exponent_.s < 0 ? this.inverse() : this;
+    let numerator = base.n;
+    let denominator = base.d;
+    if (exponent_.d !== 1) {
+      const sign = numerator < ZERO ? -ONE : ONE;
+      if (sign < ZERO && exponent_.d % 2 === 0) {
+        return null;
+      }
+      const numeratorRoot = bigRoot(sign * numerator, exponent_.d);
+      const denominatorRoot = bigRoot(denominator, exponent_.d);
+      if (numeratorRoot === null || denominatorRoot === null) {
+        return null;
+      }
+      numerator = sign * numeratorRoot;
+      denominator = denominatorRoot;
+    }
+    const power = BigInt(exponent_.n);
+    return new BigFraction(numerator ** power, denominator ** power);
+  }
+
+  /**
+   * Check if the rational number is equal to another.
+   * @param other Another rational number.
+   * @returns `true` if the rational numbers are equal.
+   */
+  equals(other: FractionValue | BigFraction) {
+    const other_ = BigFraction.from(other);
+    return this.n === other_.n && this.d === other_.d;
+  }
+
+  /**
+   * Compare the rational number to another.
+   * @param other Another rational number.
+   * @returns A negative number if this is smaller, zero if equal and a positive number if this is larger.
+   */
+  compare(other: FractionValue | BigFraction) {
+    const other_ = BigFraction.from(other);
+    const difference = this.n * other_.d - other_.n * this.d;
+    if (difference < ZERO) {
+      return -1;
+    }
+    return difference > ZERO ? 1 : 0;
+  }
+
+  /**
+   * Calculate the binary logarithm of the rational number.
+   * @returns Approximate value of log2 of the rational number.
+   * @throws An error if the rational number is not positive.
+   */
+  log2() {
+    if (this.n <= ZERO) {
+      throw new Error('Logarithm is only defined for positive numbers');
+    }
+    return bigLog2(this.n) - bigLog2(this.d);
+  }
+
+  /**
+   * Factorize the rational number into a prime exponent vector and a residual.
+   * @param numberOfComponents Number of components in the monzo vector part.
+   * @returns Pair of the prime exponents and the multiplicative residue.
+   * @throws An error if the rational number is zero.
+   */
+  toMonzoAndResidual(numberOfComponents: number): [number[], BigFraction] {
+    if (this.n === ZERO) {
+      throw new Error('Cannot factorize zero');
+    }
+    const sign = this.n < ZERO ? -ONE : ONE;
+    const [numeratorVector, numerator] = toMonzoAndResidual(
+      sign * this.n,
+      numberOfComponents
+    );
+    const [denominatorVector, denominator] = toMonzoAndResidual(
+      this.d,
+      numberOfComponents
+    );
+    return [
+      numeratorVector.map((component, i) => component - denominatorVector[i]),
+      new BigFraction(sign * numerator, denominator),
+    ];
+  }
+
+  /**
+   * Convert the rational number to a string.
+   * @returns String representation of the rational number like "13/7" or "3".
+   */
+  toString() {
+    if (this.d === ONE) {
+      return this.n.toString();
+    }
+    return `${this.n}/${this.d}`;
+  }
+
+  /**
+   * Convert the rational number to a floating point number.
+   * @returns Approximate value of the rational number.
+   */
+  valueOf() {
+    const numerator = Number(this.n);
+    const denominator = Number(this.d);
+    if (isFinite(numerator) && isFinite(denominator)) {
+      return numerator / denominator;
+    }
+    if (this.n < ZERO) {
+      return -Math.pow(2, this.neg().log2());
+    }
+    return Math.pow(2, this.log2());
+  }
+
+  /**
+   * Negate the rational number.
+   * @returns The additive inverse of the rational number.
+   */
+  neg() {
+    return new BigFraction(-this.n, this.d);
+  }
+}
+
+/**
+ * Multiplicative residue of an extended monzo.
+ * Regular fractions are promoted to big fractions once they exceed the sanity limits of {@link Fraction}.
+ */
+export type Residual = Fraction | BigFraction;
+
+/**
+ * Demote a big fraction to a regular fraction if it fits within the sanity limits.
+ * @param value Rational number to simplify.
+ * @returns The value as a {@link Fraction} if possible or as a {@link BigFraction} otherwise.
+ */
+export function simplifyResidual(value: BigFraction): Residual {
+  return value.isSafe() ? value.toFraction() : value;
+}
+
+/**
+ * Multiply two residuals without loss of precision.
+ * @param a The first residual.
+ * @param b The second residual.
+ * @returns The product of the residuals.
+ */
+export function mulResiduals(a: Residual, b: Residual) {
+  if (a instanceof Fraction && b instanceof Fraction) {
+    try {
+      return a.mul(b);
+    } catch {
+      // Promote to arbitrary precision below
+    }
+  }
+  return simplifyResidual(BigFraction.from(a).mul(b));
+}
+
+/**
+ * Divide two residuals without loss of precision.
+ * @param a The dividend.
+ * @param b The divisor.
+ * @returns The quotient of the residuals.
+ */
+export function divResiduals(a: Residual, b: Residual) {
+  if (a instanceof Fraction && b instanceof Fraction) {
+    try {
+      return a.div(b);
+    } catch {
+      // Promote to arbitrary precision below
+    }
+  }
+  return simplifyResidual(BigFraction.from(a).div(b));
+}
+
+/**
+ * Raise a residual to a rational power without loss of precision.
+ * @param residual The base of the power.
+ * @param exponent The exponent of the power.
+ * @returns The power or `null` if the result is irrational.
+ */
+export function powResidual(residual: Residual, exponent: FractionValue) {
+  if (residual instanceof Fraction) {
+    try {
+      const result = residual.pow(exponent);
+      if (result !== null) {
+        return result;
+      }
+    } catch {
+      // Promote to arbitrary precision below
+    }
+  }
+  const result = BigFraction.from(residual).pow(exponent);
+  return result === null ? null : simplifyResidual(result);
+}
+
+/**
+ * Convert a residual to cents.
+ * @param residual Positive residual.
+ * @returns Size of the residual in cents.
+ */
+export function residualToCents(residual: Residual) {
+  if (residual instanceof Fraction) {
+    return valueToCents(residual.valueOf());
+  }
+  return 1200 * residual.log2();
+}
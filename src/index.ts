@@ -1,5 +1,10 @@
 export * from './monzo';
+export * from './big-fraction';
 export * from './interval';
 export * from './scale';
 export * from './parser';
 export * from './utils';
+export * from './keyboard-mapping';
+export * from './mts';
+export * from './tun';
+export * from './temperament';
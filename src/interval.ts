@@ -1,6 +1,17 @@
-import {ExtendedMonzo} from './monzo';
-import {fractionToString} from './utils';
-import {Fraction} from 'xen-dev-utils';
+import {ExtendedMonzo, type ExtendedMonzoJSON} from './monzo';
+import {
+  checkSchemaVersion,
+  type Distribution,
+  fractionToString,
+  JSON_SCHEMA_VERSION,
+  randomOffset,
+  type RandomSource,
+  seededRandom,
+} from './utils';
+import {Fraction, valueToCents} from 'xen-dev-utils';
+
+// Number of times a frequency-space offset is redrawn before giving up
+const MAX_VARY_ATTEMPTS = 16;
 
 /** Interval formatting options. */
 export type IntervalOptions = {
@@ -16,10 +27,50 @@ export type IntervalOptions = {
   preferredEtDenominator?: number;
   /** Preferred equave when formatted as equal temperament. */
   preferredEtEquave?: Fraction;
+  /** Size of an irrational equave in cents when formatted as equal temperament. Takes priority over `preferredEtEquave`. */
+  preferredEtEquaveCents?: number;
   /** Number of digits after the decimal point when formatted as cents offset. */
   centsFractionDigits?: number;
   /** Number of digits after the decimal comma when formatted as frequency-space ratio. */
   decimalFractionDigits?: number;
+  /** Basis of a just intonation subgroup to use when formatted as a monzo. */
+  preferredSubgroup?: Fraction[];
+  /** Frequency of unison in Hz when formatted as an absolute frequency. */
+  baseFrequency?: number;
+  /** Number of digits after the decimal point when formatted as an absolute frequency. */
+  frequencyFractionDigits?: number;
+};
+
+/** Options for adding random variation to intervals. */
+export type VaryOptions = {
+  /** Shape of the distribution of offsets. Defaults to uniform. */
+  distribution?: Distribution;
+  /** Source of random numbers. Takes priority over `seed`. Defaults to `Math.random`. */
+  random?: RandomSource;
+  /** Seed for a reproducible source of random numbers. */
+  seed?: number;
+  /** Measure offsets in Hz instead of cents. */
+  frequencySpace?: boolean;
+  /** Frequency of unison in Hz when varying in frequency-space. Defaults to the `baseFrequency` formatting option. */
+  baseFrequency?: number;
+};
+
+/** Interval formatting options converted to plain data. Fractions are encoded as strings. */
+export type IntervalOptionsJSON = Omit<
+  IntervalOptions,
+  'preferredEtEquave' | 'preferredSubgroup'
+> & {
+  preferredEtEquave?: string;
+  preferredSubgroup?: string[];
+};
+
+/** Interval converted to plain data. */
+export type IntervalJSON = {
+  version: number;
+  monzo: ExtendedMonzoJSON;
+  type: IntervalType;
+  name: string;
+  options: IntervalOptionsJSON;
 };
 
 /**
@@ -40,10 +91,59 @@ function mergeOptions(a: IntervalOptions, b: IntervalOptions) {
   return result;
 }
 
+/**
+ * Format an interval as a number of steps in an equal division of a generic equave.
+ * Only used for equaves that cannot be represented as pure EDJI intervals e.g. `'1\13<1901.955>'` or `'1\5<13>'` without a 13 component in the monzo vector part.
+ * @param interval Interval with a preferred equal temperament denominator.
+ * @returns The interval formatted as k-of-N or `undefined` if the interval isn't exactly a step of the preferred equal division.
+ */
+function equalDivisionString(interval: Interval) {
+  const divisions = interval.options.preferredEtDenominator;
+  if (divisions === undefined) {
+    return undefined;
+  }
+  const numberOfComponents = interval.monzo.numberOfComponents;
+  const equaveCents = interval.options.preferredEtEquaveCents;
+  const equaveFraction = interval.options.preferredEtEquave;
+  let equave: ExtendedMonzo;
+  let equaveString: string;
+  if (equaveCents !== undefined) {
+    equave = ExtendedMonzo.fromCents(equaveCents, numberOfComponents);
+    equaveString = equaveCents.toString();
+    if (!equaveString.includes('.')) {
+      equaveString += '.';
+    }
+  } else if (
+    equaveFraction !== undefined &&
+    !interval.monzo.isEqualTemperament()
+  ) {
+    equave = ExtendedMonzo.fromFraction(equaveFraction, numberOfComponents);
+    equaveString = equaveFraction.toFraction();
+  } else {
+    return undefined;
+  }
+  const equaveSize = equave.totalCents();
+  if (!equaveSize) {
+    return undefined;
+  }
+  const steps = Math.round(
+    (divisions * interval.monzo.totalCents()) / equaveSize
+  );
+  if (!equave.mul(new Fraction(steps, divisions)).equals(interval.monzo)) {
+    return undefined;
+  }
+  const result = `${steps}\\${divisions}`;
+  if (equaveString === '2') {
+    return result;
+  }
+  return result + `<${equaveString}>`;
+}
+
 /** Interval formatting type. */
 export type IntervalType =
   | 'cents'
   | 'decimal'
+  | 'frequency'
   | 'monzo'
   | 'equal temperament'
   | 'ratio'
@@ -79,6 +179,56 @@ export class Interval {
     this.name = name || this.toString();
   }
 
+  /**
+   * Revive an interval from plain data.
+   * @param data Output of {@link Interval.toJSON}.
+   * @returns Interval with the serialized pitch information, type, name and formatting options.
+   * @throws An error if the schema version is not supported.
+   */
+  static fromJSON(data: IntervalJSON) {
+    checkSchemaVersion(data.version);
+    const {preferredEtEquave, preferredSubgroup, ...rest} = data.options;
+    const options: IntervalOptions = rest;
+    if (preferredEtEquave !== undefined) {
+      options.preferredEtEquave = new Fraction(preferredEtEquave);
+    }
+    if (preferredSubgroup !== undefined) {
+      options.preferredSubgroup = preferredSubgroup.map(
+        element => new Fraction(element)
+      );
+    }
+    return new Interval(
+      ExtendedMonzo.fromJSON(data.monzo),
+      data.type,
+      data.name,
+      options
+    );
+  }
+
+  /**
+   * Convert the interval to plain data suitable for `JSON.stringify` or `structuredClone`.
+   * @returns Serialized interval.
+   */
+  toJSON(): IntervalJSON {
+    const {preferredEtEquave, preferredSubgroup, ...rest} = this.options;
+    const options: IntervalOptionsJSON = rest;
+    if (preferredEtEquave !== undefined) {
+      options.preferredEtEquave = preferredEtEquave.toFraction();
+    }
+    if (preferredSubgroup !== undefined) {
+      options.preferredSubgroup = preferredSubgroup.map(element =>
+        element.toFraction()
+      );
+    }
+    return {
+      version: JSON_SCHEMA_VERSION,
+      monzo: this.monzo.toJSON(),
+      type: this.type,
+      name: this.name,
+      options,
+    };
+  }
+
   /**
    * Create a deep copy of this interval.
    * @returns A clone with independent monzo vector part.
@@ -230,6 +380,15 @@ export class Interval {
     return this.monzo.equals(other.monzo);
   }
 
+  /**
+   * Obtain a string key for hashing intervals by size regardless of formatting.
+   * Exact intervals share a key if and only if they are equal. Keys of intervals with cents offsets should be confirmed with {@link Interval.equals}.
+   * @returns Key suitable for use in a `Map` or a `Set`.
+   */
+  hashKey() {
+    return this.monzo.hashKey();
+  }
+
   /**
    * Check for strict equality between this and another interval.
    * @param other Another interval.
@@ -299,11 +458,35 @@ export class Interval {
 
   /**
    * Add a random cents offset to the interval.
-   * @param maxCents Maximum possible offset.
+   * @param amount Maximum possible offset in cents (or Hz in frequency-space). Standard deviation for the gaussian distribution.
+   * @param options Distribution, source of randomness and measurement space of the offset.
+   * Offsets in frequency-space that would make the frequency non-positive are drawn again.
    * @returns The interval with a random cents offset.
+   * @throws An error if varying in frequency-space without a base frequency.
    */
-  vary(maxCents: number) {
-    const offset = (Math.random() * 2 - 1) * maxCents;
+  vary(amount: number, options: VaryOptions = {}) {
+    let random = options.random;
+    if (random === undefined) {
+      random =
+        options.seed === undefined ? Math.random : seededRandom(options.seed);
+    }
+    let offset = randomOffset(amount, options.distribution, random);
+    if (options.frequencySpace) {
+      const baseFrequency = options.baseFrequency ?? this.options.baseFrequency;
+      if (baseFrequency === undefined) {
+        throw new Error('Base frequency required for variation in Hz');
+      }
+      const frequency = baseFrequency * this.monzo.valueOf();
+      // Redraw offsets that would make the frequency non-positive
+      for (let i = 0; i < MAX_VARY_ATTEMPTS && frequency + offset <= 0; ++i) {
+        offset = randomOffset(amount, options.distribution, random);
+      }
+      // Reflect the offset if the source of randomness keeps failing us
+      if (frequency + offset <= 0) {
+        offset = -offset;
+      }
+      offset = valueToCents((frequency + offset) / frequency);
+    }
     const monzo = this.monzo;
     return new Interval(
       new ExtendedMonzo(monzo.vector, monzo.residual, monzo.cents + offset),
@@ -342,6 +525,20 @@ export class Interval {
     );
   }
 
+  /**
+   * Convert the interval to a different number of components in the monzo vector part.
+   * @param numberOfComponents Number of components in the monzo vector part.
+   * @returns The interval with the monzo resized.
+   */
+  withComponents(numberOfComponents: number) {
+    return new Interval(
+      this.monzo.withComponents(numberOfComponents),
+      this.type,
+      this.name,
+      this.options
+    );
+  }
+
   /**
    * Check if the interval is combination of fractional, equal temperament or cents parts.
    * @returns `true` if the interval is not simply fractional, equal temperament or pure cents.
@@ -350,12 +547,103 @@ export class Interval {
     return this.monzo.isComposite();
   }
 
+  /**
+   * Calculate the Tenney height of the interval.
+   * @returns Tenney height of the interval.
+   * @throws An error if the interval is not rational.
+   */
+  tenneyHeight() {
+    return this.monzo.tenneyHeight();
+  }
+
+  /**
+   * Calculate the Benedetti height of the interval.
+   * @returns Benedetti height of the interval.
+   * @throws An error if the interval is not rational.
+   */
+  benedettiHeight() {
+    return this.monzo.benedettiHeight();
+  }
+
+  /**
+   * Calculate the Weil height of the interval.
+   * @returns Weil height of the interval.
+   * @throws An error if the interval is not rational.
+   */
+  weilHeight() {
+    return this.monzo.weilHeight();
+  }
+
+  /**
+   * Calculate the Wilson complexity of the interval.
+   * @returns Wilson complexity of the interval.
+   * @throws An error if the interval is not rational.
+   */
+  wilsonComplexity() {
+    return this.monzo.wilsonComplexity();
+  }
+
+  /**
+   * Calculate the prime limit of the interval.
+   * @returns Prime limit of the interval.
+   * @throws An error if the interval is not rational.
+   */
+  primeLimit() {
+    return this.monzo.primeLimit();
+  }
+
+  /**
+   * Calculate the odd limit of the interval.
+   * @returns Odd limit of the interval.
+   * @throws An error if the interval is not rational.
+   */
+  oddLimit() {
+    return this.monzo.oddLimit();
+  }
+
+  /**
+   * Calculate the integer limit of the interval.
+   * @returns Integer limit of the interval.
+   * @throws An error if the interval is not rational.
+   */
+  integerLimit() {
+    return this.monzo.integerLimit();
+  }
+
+  /**
+   * Monzo representation of the interval in the basis of the preferred subgroup.
+   * Example: `'[1, -1>@2.3.7'`
+   * @returns The interval formatted as a subgroup monzo or `undefined` if there's no preferred subgroup or the interval doesn't lie in it.
+   */
+  subgroupMonzoString() {
+    const subgroup = this.options.preferredSubgroup;
+    if (subgroup === undefined) {
+      return undefined;
+    }
+    try {
+      const components = this.monzo.toSubgroupMonzo(subgroup);
+      return (
+        '[' +
+        components.map(component => component.toFraction()).join(', ') +
+        '>@' +
+        subgroup.map(element => element.toFraction()).join('.')
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Monzo representation of the interval.
+   * Uses the basis of the preferred subgroup if the interval lies in it.
    * Example: `'[-4, 4, -1>'`
    * @returns The interval formatted as a monzo.
    */
   monzoString() {
+    const subgroupString = this.subgroupMonzoString();
+    if (subgroupString !== undefined) {
+      return subgroupString;
+    }
     let result = '[';
     for (let i = 0; i < this.monzo.vector.length; ++i) {
       result += this.monzo.vector[i].toFraction();
@@ -436,12 +724,40 @@ export class Interval {
     return result.replace('.', ',');
   }
 
+  /**
+   * Absolute frequency representation of the interval relative to the base frequency in the formatting options.
+   * Example: `'660 Hz'`
+   * @returns The interval formatted as a frequency in Hz.
+   * @throws An error if the base frequency is not known.
+   */
+  frequencyString() {
+    const baseFrequency = this.options.baseFrequency;
+    if (baseFrequency === undefined) {
+      throw new Error('Base frequency required for absolute frequencies');
+    }
+    const fractionDigits = this.options.frequencyFractionDigits ?? 6;
+    let result = (baseFrequency * this.monzo.valueOf()).toFixed(fractionDigits);
+    if (result.includes('.')) {
+      while (result[result.length - 1] === '0') {
+        result = result.slice(0, -1);
+      }
+      if (result[result.length - 1] === '.') {
+        result = result.slice(0, -1);
+      }
+    }
+    return result + ' Hz';
+  }
+
   /**
    * Equal temperament representation of the interval.
    * Example: `'7\12'`
-   * @returns The interval formatted as an N-of-EDO or a generic EDJI.
+   * @returns The interval formatted as an N-of-EDO, a generic EDJI or an equal division of an irrational equave.
    */
   equalTemperamentString() {
+    const divisionString = equalDivisionString(this);
+    if (divisionString !== undefined) {
+      return divisionString;
+    }
     const preferredDenominator = this.options.preferredEtDenominator;
     const preferredEquave = this.options.preferredEtEquave || new Fraction(2);
     let [fractionOfEquave, equave] = this.monzo.toEqualTemperament();
@@ -497,6 +813,13 @@ export class Interval {
       return this.decimalString();
     }
 
+    if (this.type === 'frequency') {
+      if (options.baseFrequency === undefined) {
+        return cents();
+      }
+      return this.frequencyString();
+    }
+
     if (this.type === 'ratio') {
       const maybeFraction = this.monzo.clone();
       maybeFraction.cents = 0;
@@ -520,6 +843,11 @@ export class Interval {
     }
 
     if (this.type === 'equal temperament') {
+      const divisionString = equalDivisionString(this);
+      if (divisionString !== undefined) {
+        return divisionString;
+      }
+
       const maybeEt = this.monzo.clone();
       maybeEt.cents = 0;
 
@@ -542,6 +870,13 @@ export class Interval {
     }
 
     // Monzos and fallback for unsafe ratios and equal temperaments with residue
+    const subgroupString = this.subgroupMonzoString();
+    if (subgroupString !== undefined) {
+      if (options.forbidComposite && this.monzo.cents) {
+        return cents();
+      }
+      return subgroupString + this.centsString(true);
+    }
     if (!this.monzo.cents) {
       if (this.monzo.residual.equals(1)) {
         return this.monzoString();
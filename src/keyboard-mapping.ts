@@ -0,0 +1,168 @@
+import {Scale} from './scale';
+
+/** Number of keys in the MIDI standard. */
+const NUMBER_OF_KEYS = 128;
+
+/**
+ * Mapping of scale degrees onto MIDI keys. Corresponds to the fields of a Scala .kbm file.
+ */
+export type KeyboardMapping = {
+  /** Size of the map. The pattern repeats every so many keys. Zero means a linear mapping where consecutive keys map to consecutive degrees. */
+  mapSize: number;
+  /** First MIDI key to retune. */
+  firstKey: number;
+  /** Last MIDI key to retune. */
+  lastKey: number;
+  /** MIDI key where the first entry of the mapping is mapped to. */
+  middleNote: number;
+  /** MIDI key for which the reference frequency is given. */
+  referenceKey: number;
+  /** Frequency of the reference key in Hz. */
+  referenceFrequency: number;
+  /** Scale degree to consider as the formal octave. Zero means the size of the scale i.e. the equave. */
+  octaveDegree: number;
+  /** Scale degree of each key in the pattern. `null` means the key is unmapped. */
+  mapping: (number | null)[];
+};
+
+/**
+ * Parse an integer field of a .kbm file.
+ * @param line Line to parse.
+ * @param field Name of the field for error reporting.
+ * @returns The parsed integer.
+ * @throws An error if the line doesn't start with an integer.
+ */
+function parseInteger(line: string, field: string) {
+  const value = line.trim().split(/\s/)[0];
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new Error(`Invalid ${field} '${value}'`);
+  }
+  return parseInt(value);
+}
+
+/**
+ * Parse the contents of a Scala .kbm file into a {@link KeyboardMapping}.
+ * @param input Contents of a .kbm file.
+ * @returns The keyboard mapping described by the file.
+ * @throws An error if the file is malformed.
+ */
+export function parseKeyboardMapping(input: string): KeyboardMapping {
+  const lines = input
+    .split(/\r?\n/)
+    .filter(line => !line.startsWith('!') && line.trim().length);
+  if (lines.length < 7) {
+    throw new Error('Missing keyboard mapping fields');
+  }
+  const mapSize = parseInteger(lines[0], 'map size');
+  if (mapSize < 0) {
+    throw new Error('Map size must be non-negative');
+  }
+  const referenceFrequency = parseFloat(lines[5].trim().split(/\s/)[0]);
+  if (!(referenceFrequency > 0)) {
+    throw new Error('Reference frequency must be positive');
+  }
+  const mapping = lines.slice(7).map(line => {
+    const value = line.trim().split(/\s/)[0];
+    if (value.toLowerCase() === 'x') {
+      return null;
+    }
+    return parseInteger(value, 'mapping entry');
+  });
+  if (mapping.length > mapSize) {
+    throw new Error(
+      `Too many mapping entries: map size ${mapSize}, found ${mapping.length}`
+    );
+  }
+  // Missing entries at the end are unmapped
+  while (mapping.length < mapSize) {
+    mapping.push(null);
+  }
+  return {
+    mapSize,
+    firstKey: parseInteger(lines[1], 'first key'),
+    lastKey: parseInteger(lines[2], 'last key'),
+    middleNote: parseInteger(lines[3], 'middle note'),
+    referenceKey: parseInteger(lines[4], 'reference key'),
+    referenceFrequency,
+    octaveDegree: parseInteger(lines[6], 'formal octave degree'),
+    mapping,
+  };
+}
+
+/**
+ * Convert a keyboard mapping to the contents of a Scala .kbm file.
+ * @param mapping {@link KeyboardMapping} to be converted.
+ * @returns The keyboard mapping formatted as a .kbm file.
+ */
+export function reverseParseKeyboardMapping(mapping: KeyboardMapping) {
+  const lines = [
+    '! Size of map. The pattern repeats every so many keys:',
+    mapping.mapSize.toString(),
+    '! First MIDI note number to retune:',
+    mapping.firstKey.toString(),
+    '! Last MIDI note number to retune:',
+    mapping.lastKey.toString(),
+    '! Middle note where the first entry of the mapping is mapped to:',
+    mapping.middleNote.toString(),
+    '! Reference note for which frequency is given:',
+    mapping.referenceKey.toString(),
+    '! Frequency to tune the above note to',
+    mapping.referenceFrequency.toString(),
+    '! Scale degree to consider as formal octave:',
+    mapping.octaveDegree.toString(),
+    '! Mapping.',
+  ];
+  mapping.mapping.forEach(degree => {
+    lines.push(degree === null ? 'x' : degree.toString());
+  });
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Obtain the scale degree a key is mapped to.
+ * @param mapping Keyboard mapping to use.
+ * @param key MIDI key to map.
+ * @param octaveDegree Number of degrees between adjacent repeats of the mapping pattern.
+ * @returns The scale degree of the key or `null` if the key is unmapped.
+ */
+function mapKey(mapping: KeyboardMapping, key: number, octaveDegree: number) {
+  const offset = key - mapping.middleNote;
+  if (mapping.mapSize === 0) {
+    return offset;
+  }
+  const numOctaves = Math.floor(offset / mapping.mapSize);
+  const degree = mapping.mapping[offset - numOctaves * mapping.mapSize];
+  if (degree === null || degree === undefined) {
+    return null;
+  }
+  return degree + numOctaves * octaveDegree;
+}
+
+/**
+ * Calculate the frequencies of all 128 MIDI keys when a scale is mapped to the keyboard.
+ * The base frequency of the scale is ignored in favor of the reference frequency of the mapping.
+ * @param scale Musical scale to map.
+ * @param mapping Keyboard mapping to use.
+ * @returns An array of 128 frequencies in Hz. Unmapped keys and keys outside of the retuned range are `null`.
+ * @throws An error if the reference key is unmapped.
+ */
+export function getFrequencyTable(scale: Scale, mapping: KeyboardMapping) {
+  const octaveDegree = mapping.octaveDegree || scale.size;
+  const referenceDegree = mapKey(mapping, mapping.referenceKey, octaveDegree);
+  if (referenceDegree === null) {
+    throw new Error('Reference key is unmapped');
+  }
+  const referenceRatio = scale.getRatio(referenceDegree);
+  const result: (number | null)[] = [];
+  for (let key = 0; key < NUMBER_OF_KEYS; ++key) {
+    const degree = mapKey(mapping, key, octaveDegree);
+    if (degree === null || key < mapping.firstKey || key > mapping.lastKey) {
+      result.push(null);
+    } else {
+      result.push(
+        (mapping.referenceFrequency * scale.getRatio(degree)) / referenceRatio
+      );
+    }
+  }
+  return result;
+}
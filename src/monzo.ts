@@ -1,4 +1,5 @@
 import {
+  BIG_INT_PRIMES,
   centsToValue,
   Fraction,
   FractionValue,
@@ -10,11 +11,40 @@ import {
   toMonzoAndResidual,
   valueToCents,
 } from 'xen-dev-utils';
+import {
+  BigFraction,
+  bigLog2,
+  divResiduals,
+  mulResiduals,
+  powResidual,
+  Residual,
+  residualToCents,
+  simplifyResidual,
+} from './big-fraction';
+import {checkSchemaVersion, JSON_SCHEMA_VERSION} from './utils';
 
 export type FractionalMonzo = Fraction[];
 
+/** Extended monzo converted to plain data. Fractions are encoded as strings. */
+export type ExtendedMonzoJSON = {
+  version: number;
+  vector: string[];
+  residual: string;
+  cents: number;
+};
+
 const SAFE_CENTS = valueToCents(Number.MAX_SAFE_INTEGER);
 
+// Sizes closer than this are considered equal
+const CENTS_TOLERANCE = 1e-9;
+
+const ZERO = BigInt(0);
+const TWO = BigInt(2);
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+// Trial division beyond this is too slow to be practical
+const MAX_TRIAL_DIVISOR = 0x1000000;
+
 /**
  * Check if two fractional monzos are equal.
  * @param a The first monzo.
@@ -48,6 +78,206 @@ function isPowerOfTwo(n: number) {
   return Math.log2(n) % 1 === 0;
 }
 
+/**
+ * Calculate the sum of prime factors with repetition.
+ * @param n Positive integer to factorize.
+ * @returns Sum of the prime factors of `n` counted with multiplicity.
+ */
+function sopfr(n: number) {
+  let result = 0;
+  for (let factor = 2; factor * factor <= n; factor += factor === 2 ? 1 : 2) {
+    while (n % factor === 0) {
+      n /= factor;
+      result += factor;
+    }
+  }
+  if (n > 1) {
+    result += n;
+  }
+  return result;
+}
+
+/**
+ * Calculate the sum of prime factors with repetition of a big integer.
+ * @param n Positive integer to factorize.
+ * @returns Sum of the prime factors of `n` counted with multiplicity.
+ * @throws An error if `n` has more than one prime factor beyond the range of trial division.
+ */
+function bigSopfr(n: bigint) {
+  let result = 0;
+  for (let factor = 2; ; factor += factor === 2 ? 1 : 2) {
+    if (n <= MAX_SAFE) {
+      return result + sopfr(Number(n));
+    }
+    const factor_ = BigInt(factor);
+    if (factor_ * factor_ > n) {
+      // The remaining cofactor is prime
+      return result + Number(n);
+    }
+    if (factor > MAX_TRIAL_DIVISOR) {
+      throw new Error('Unable to factorize residual with large prime factors');
+    }
+    while (n % factor_ === ZERO) {
+      n /= factor_;
+      result += factor;
+    }
+  }
+}
+
+/**
+ * Find the largest prime factor of an integer.
+ * @param n Positive integer to factorize.
+ * @returns The largest prime dividing `n` or `1` if `n` is `1`.
+ */
+function largestPrimeFactor(n: number) {
+  let result = 1;
+  for (let factor = 2; factor * factor <= n; factor += factor === 2 ? 1 : 2) {
+    while (n % factor === 0) {
+      n /= factor;
+      result = factor;
+    }
+  }
+  return n > 1 ? n : result;
+}
+
+/**
+ * Find the largest prime factor of a big integer.
+ * @param n Positive integer to factorize.
+ * @returns The largest prime dividing `n` or `1` if `n` is `1`. May lose precision if the prime exceeds `Number.MAX_SAFE_INTEGER`.
+ * @throws An error if `n` has more than one prime factor beyond the range of trial division.
+ */
+function bigLargestPrimeFactor(n: bigint) {
+  let result = 1;
+  for (let factor = 2; ; factor += factor === 2 ? 1 : 2) {
+    if (n <= MAX_SAFE) {
+      return Math.max(result, largestPrimeFactor(Number(n)));
+    }
+    const factor_ = BigInt(factor);
+    if (factor_ * factor_ > n) {
+      // The remaining cofactor is prime
+      return Number(n);
+    }
+    if (factor > MAX_TRIAL_DIVISOR) {
+      throw new Error('Unable to factorize residual with large prime factors');
+    }
+    while (n % factor_ === ZERO) {
+      n /= factor_;
+      result = factor;
+    }
+  }
+}
+
+/**
+ * Remove factors of two from a big integer.
+ * @param n Positive integer.
+ * @returns The largest odd divisor of `n`.
+ */
+function oddPart(n: bigint) {
+  while (n % TWO === ZERO) {
+    n /= TWO;
+  }
+  return n;
+}
+
+/**
+ * Split a residual into its numerator and denominator as big integers ignoring the sign.
+ * @param residual Multiplicative residue of an extended monzo.
+ * @returns Pair of the absolute numerator and the denominator.
+ */
+function residualTerms(residual: Residual): [bigint, bigint] {
+  if (residual instanceof Fraction) {
+    return [BigInt(residual.n), BigInt(residual.d)];
+  }
+  return [residual.n < 0 ? -residual.n : residual.n, residual.d];
+}
+
+/**
+ * Bring an extended monzo to a canonical form where the residual has been factored into the vector part as far as possible.
+ * @param monzo Extended monzo to normalize. The cents offset is ignored.
+ * @returns Pair of the vector part without trailing zeros and the remaining residual.
+ */
+function canonicalForm(monzo: ExtendedMonzo): [FractionalMonzo, BigFraction] {
+  const vector = [...monzo.vector];
+  let residual = BigFraction.from(monzo.residual);
+  if (!residual.equals(1) && !residual.equals(0)) {
+    let numberOfComponents = monzo.numberOfComponents;
+    residualTerms(monzo.residual).forEach(term => {
+      const limit = primeLimit(term, true);
+      numberOfComponents = Math.max(
+        numberOfComponents,
+        isFinite(limit) ? limit : PRIMES.length
+      );
+    });
+    const [residualVector, remainder] =
+      residual.toMonzoAndResidual(numberOfComponents);
+    residualVector.forEach((component, i) => {
+      vector[i] =
+        i < monzo.numberOfComponents
+          ? vector[i].add(component)
+          : new Fraction(component);
+    });
+    residual = remainder;
+  }
+  if (residual.equals(0)) {
+    return [[], residual];
+  }
+  while (vector.length && vector[vector.length - 1].equals(0)) {
+    vector.pop();
+  }
+  return [vector, residual];
+}
+
+/**
+ * Obtain the integer prime exponents of the vector part for measuring complexity.
+ * @param monzo Extended monzo to inspect.
+ * @param measure Name of the complexity measure for error reporting.
+ * @returns Array of prime exponents.
+ * @throws An error if the extended monzo doesn't represent a positive rational number.
+ */
+function rationalVector(monzo: ExtendedMonzo, measure: string) {
+  if (monzo.cents) {
+    throw new Error(
+      `${measure} is only defined for rational intervals: cents offset of ${monzo.cents}`
+    );
+  }
+  if (monzo.residual.compare(0) <= 0) {
+    throw new Error(`${measure} is only defined for positive intervals`);
+  }
+  return monzo.vector.map((component, i) => {
+    if (component.d !== 1) {
+      throw new Error(
+        `${measure} is only defined for rational intervals: exponent of ${
+          PRIMES[i]
+        } is ${component.toFraction()}`
+      );
+    }
+    return component.valueOf();
+  });
+}
+
+/**
+ * Calculate the numerator and the denominator of the extended monzo as a ratio in frequency-space.
+ * @param monzo Extended monzo to inspect.
+ * @param measure Name of the complexity measure for error reporting.
+ * @returns Pair of the numerator and the denominator as big integers.
+ * @throws An error if the extended monzo doesn't represent a positive rational number.
+ */
+function numeratorDenominator(
+  monzo: ExtendedMonzo,
+  measure: string
+): [bigint, bigint] {
+  const vector = rationalVector(monzo, measure);
+  let [numerator, denominator] = residualTerms(monzo.residual);
+  vector.forEach((exponent, i) => {
+    if (exponent > 0) {
+      numerator *= BigInt(PRIMES[i]) ** BigInt(exponent);
+    } else if (exponent < 0) {
+      denominator *= BigInt(PRIMES[i]) ** BigInt(-exponent);
+    }
+  });
+  return [numerator, denominator];
+}
+
 /**
  * Fractional monzo with multiplicative residue and arbitrary cents offset.
  *
@@ -55,7 +285,7 @@ function isPowerOfTwo(n: number) {
  */
 export class ExtendedMonzo {
   vector: FractionalMonzo;
-  residual: Fraction;
+  residual: Residual;
   cents: number;
 
   /**
@@ -64,7 +294,7 @@ export class ExtendedMonzo {
    * @param residual Multiplicative residue that is too complex to fit in the vector part.
    * @param cents Cents offset.
    */
-  constructor(vector: FractionalMonzo, residual?: Fraction, cents = 0) {
+  constructor(vector: FractionalMonzo, residual?: Residual, cents = 0) {
     if (isNaN(cents)) {
       throw new Error('Invalid cents value');
     }
@@ -109,7 +339,7 @@ export class ExtendedMonzo {
    * @param fractionOfEquave Fraction of the equave measured in pitch-space.
    * @param equave Equave measured in frequency-space. Defaults to the octave (2/1).
    * @param numberOfComponents Number of components in the monzo vector part.
-   * @returns Extended monzo representing N-of-EDO (default) or a generic EDJI interval.
+   * @returns Extended monzo representing N-of-EDO (default) or a generic EDJI interval. Irrational powers of primes beyond the vector part are converted to a cents offset.
    */
   static fromEqualTemperament(
     fractionOfEquave: FractionValue,
@@ -123,17 +353,9 @@ export class ExtendedMonzo {
     if (numberOfComponents === undefined) {
       numberOfComponents = PRIMES.indexOf(primeLimit(equave)) + 1;
     }
-    const [equaveVector, residual] = toMonzoAndResidual(
-      equave,
-      numberOfComponents
-    );
-    if (!residual.equals(1)) {
-      throw new Error('Unable to convert equave to monzo');
-    }
-    const vector = equaveVector.map(component =>
-      fractionOfEquave_.mul(component)
+    return ExtendedMonzo.fromFraction(equave, numberOfComponents).mul(
+      fractionOfEquave_
     );
-    return new ExtendedMonzo(vector);
   }
 
   /**
@@ -153,6 +375,21 @@ export class ExtendedMonzo {
     return new ExtendedMonzo(vector, undefined, valueToCents(value));
   }
 
+  /**
+   * Revive an extended monzo from plain data.
+   * @param data Output of {@link ExtendedMonzo.toJSON}.
+   * @returns Extended monzo equal to the serialized one.
+   * @throws An error if the schema version is not supported.
+   */
+  static fromJSON(data: ExtendedMonzoJSON) {
+    checkSchemaVersion(data.version);
+    return new ExtendedMonzo(
+      data.vector.map(component => new Fraction(component)),
+      simplifyResidual(BigFraction.fromString(data.residual)),
+      data.cents
+    );
+  }
+
   /**
    * Number of components in the monzo vector part.
    */
@@ -169,7 +406,63 @@ export class ExtendedMonzo {
     this.vector.forEach(component => {
       vector.push(new Fraction(component));
     });
-    return new ExtendedMonzo(vector, new Fraction(this.residual), this.cents);
+    const residual =
+      this.residual instanceof Fraction
+        ? new Fraction(this.residual)
+        : this.residual;
+    return new ExtendedMonzo(vector, residual, this.cents);
+  }
+
+  /**
+   * Convert the extended monzo to a different number of components.
+   * Integer exponents beyond the new vector part are moved to the residual and fractional ones to the cents offset.
+   * Primes in the residual that fit in the new vector part are moved there.
+   * @param numberOfComponents Number of components in the vector part of the result.
+   * @returns Extended monzo of the same size with the given number of components.
+   */
+  withComponents(numberOfComponents: number) {
+    const vector = this.vector
+      .slice(0, numberOfComponents)
+      .map(component => new Fraction(component));
+    while (vector.length < numberOfComponents) {
+      vector.push(new Fraction(0));
+    }
+    let residual = this.residual;
+    let cents = this.cents;
+    for (let i = numberOfComponents; i < this.numberOfComponents; ++i) {
+      const component = this.vector[i];
+      if (component.d === 1) {
+        const factor = new BigFraction(BIG_INT_PRIMES[i]).pow(component)!;
+        residual = mulResiduals(residual, simplifyResidual(factor));
+      } else {
+        cents += component.valueOf() * PRIME_CENTS[i];
+      }
+    }
+    if (numberOfComponents > this.numberOfComponents && !residual.equals(0)) {
+      const [residualVector, remainder] =
+        BigFraction.from(residual).toMonzoAndResidual(numberOfComponents);
+      residualVector.forEach((component, i) => {
+        vector[i] = vector[i].add(component);
+      });
+      residual = simplifyResidual(remainder);
+    }
+    return new ExtendedMonzo(vector, residual, cents);
+  }
+
+  /**
+   * Convert the extended monzo to plain data suitable for `JSON.stringify` or `structuredClone`.
+   * @returns Serialized extended monzo.
+   */
+  toJSON(): ExtendedMonzoJSON {
+    return {
+      version: JSON_SCHEMA_VERSION,
+      vector: this.vector.map(component => component.toFraction()),
+      residual:
+        this.residual instanceof Fraction
+          ? this.residual.toFraction()
+          : this.residual.toString(),
+      cents: this.cents,
+    };
   }
 
   /**
@@ -178,18 +471,33 @@ export class ExtendedMonzo {
    * @throws An error if the extended monzo cannot be represented as a ratio.
    */
   toFraction() {
+    return this.toBigFraction().toFraction();
+  }
+
+  /**
+   * Convert the extended monzo to an arbitrary-precision fraction in frequency-space.
+   * @returns Musical ratio as a big fraction in frequency-space.
+   * @throws An error if the extended monzo cannot be represented as a ratio.
+   */
+  toBigFraction() {
     if (this.cents !== 0) {
       throw new Error('Unable to convert irrational number to fraction');
     }
-    let result = this.residual;
+    let numerator = BigInt(1);
+    let denominator = BigInt(1);
     this.vector.forEach((component, i) => {
-      const factor = new Fraction(PRIMES[i]).pow(component);
-      if (factor === null) {
+      if (component.d !== 1) {
         throw new Error('Unable to convert irrational number to fraction');
       }
-      result = result.mul(factor);
+      if (component.s > 0) {
+        numerator *= BIG_INT_PRIMES[i] ** BigInt(component.n);
+      } else if (component.s < 0) {
+        denominator *= BIG_INT_PRIMES[i] ** BigInt(component.n);
+      }
     });
-    return result;
+    return BigFraction.from(this.residual).mul(
+      new BigFraction(numerator, denominator)
+    );
   }
 
   /**
@@ -263,14 +571,92 @@ export class ExtendedMonzo {
     return result;
   }
 
+  /**
+   * Express the extended monzo in the basis of a just intonation subgroup. The cents offset is ignored.
+   * @param subgroup Basis of the subgroup e.g. `[2, 3, 7]` for 2.3.7.
+   * @returns Array of exponents of the basis elements.
+   * @throws An error if the extended monzo doesn't lie in the subgroup.
+   */
+  toSubgroupMonzo(subgroup: FractionValue[]): FractionalMonzo {
+    if (this.residual.equals(0)) {
+      throw new Error('Cannot express zero in a subgroup');
+    }
+    const basis = subgroup.map(element => new Fraction(element));
+    let numberOfComponents = this.numberOfComponents;
+    [...residualTerms(this.residual), ...basis].forEach(element => {
+      const limit = primeLimit(element, true);
+      if (isNaN(limit) || !isFinite(limit)) {
+        throw new Error('Subgroup basis too complex');
+      }
+      numberOfComponents = Math.max(numberOfComponents, limit);
+    });
+
+    // Augmented matrix with a row for each prime and a column for each basis element
+    const residualVector = BigFraction.from(this.residual).toMonzoAndResidual(
+      numberOfComponents
+    )[0];
+    const columns = basis.map(
+      element => toMonzoAndResidual(element, numberOfComponents)[0]
+    );
+    const rows: Fraction[][] = [];
+    for (let i = 0; i < numberOfComponents; ++i) {
+      const row = columns.map(column => new Fraction(column[i]));
+      const value = new Fraction(residualVector[i]);
+      row.push(i < this.numberOfComponents ? value.add(this.vector[i]) : value);
+      rows.push(row);
+    }
+
+    // Gauss-Jordan elimination
+    const pivots: number[] = [];
+    let pivotRow = 0;
+    for (let column = 0; column < basis.length; ++column) {
+      const index = rows.findIndex(
+        (row, i) => i >= pivotRow && !row[column].equals(0)
+      );
+      if (index < 0) {
+        continue;
+      }
+      [rows[pivotRow], rows[index]] = [rows[index], rows[pivotRow]];
+      const pivot = rows[pivotRow][column];
+      rows[pivotRow] = rows[pivotRow].map(value => value.div(pivot));
+      rows.forEach((row, i) => {
+        if (i === pivotRow || row[column].equals(0)) {
+          return;
+        }
+        const factor = row[column];
+        rows[i] = row.map((value, j) =>
+          value.sub(factor.mul(rows[pivotRow][j]))
+        );
+      });
+      pivots.push(column);
+      pivotRow++;
+    }
+    for (let i = pivotRow; i < rows.length; ++i) {
+      if (!rows[i][basis.length].equals(0)) {
+        throw new Error('Monzo does not lie in the subgroup');
+      }
+    }
+    const result = basis.map(() => new Fraction(0));
+    pivots.forEach((column, i) => {
+      result[column] = rows[i][basis.length];
+    });
+    return result;
+  }
+
   /**
    * Check if the extended monzo represents a musical fraction.
-   * @returns `true` if the extended monzo can be interpreted as a ratio in frequency-space.
+   *
+   * Exact ratios that exceed the sanity limits of {@link Fraction} such as those with a {@link BigFraction} residual are not considered fractional.
+   * Use {@link ExtendedMonzo.toBigFraction} to convert those.
+   * @returns `true` if the extended monzo can be interpreted as a ratio in frequency-space and converted using {@link ExtendedMonzo.toFraction}.
    */
   isFractional() {
     if (this.cents !== 0) {
       return false;
     }
+    if (this.residual instanceof BigFraction) {
+      return false;
+    }
     // The Fraction class has sanity limits we must respect.
     let numeratorCents = 0;
     let denomimatorCents = 0;
@@ -349,6 +735,9 @@ export class ExtendedMonzo {
       return false;
     }
     if (!this.vector.length) {
+      if (this.residual instanceof BigFraction) {
+        return this.residual.toMonzoAndResidual(1)[1].equals(1);
+      }
       return isPowerOfTwo(this.residual.n) && isPowerOfTwo(this.residual.d);
     }
     if (!this.residual.equals(1)) {
@@ -362,6 +751,109 @@ export class ExtendedMonzo {
     return true;
   }
 
+  /**
+   * Calculate the Tenney height of the extended monzo i.e. log2(n·d) of the ratio n/d.
+   * @returns Tenney height of the interval.
+   * @throws An error if the extended monzo doesn't represent a positive rational number.
+   */
+  tenneyHeight() {
+    const [n, d] = residualTerms(this.residual);
+    let result = bigLog2(n) + bigLog2(d);
+    rationalVector(this, 'Tenney height').forEach((exponent, i) => {
+      result += Math.abs(exponent) * Math.log2(PRIMES[i]);
+    });
+    return result;
+  }
+
+  /**
+   * Calculate the Benedetti height of the extended monzo i.e. n·d of the ratio n/d.
+   * @returns Benedetti height of the interval. May lose precision beyond `Number.MAX_SAFE_INTEGER`.
+   * @throws An error if the extended monzo doesn't represent a positive rational number.
+   */
+  benedettiHeight() {
+    const [numerator, denominator] = numeratorDenominator(
+      this,
+      'Benedetti height'
+    );
+    return Number(numerator * denominator);
+  }
+
+  /**
+   * Calculate the Weil height of the extended monzo i.e. log2(max(n, d)) of the ratio n/d.
+   * @returns Weil height of the interval.
+   * @throws An error if the extended monzo doesn't represent a positive rational number.
+   */
+  weilHeight() {
+    const [n, d] = residualTerms(this.residual);
+    let numerator = bigLog2(n);
+    let denominator = bigLog2(d);
+    rationalVector(this, 'Weil height').forEach((exponent, i) => {
+      if (exponent > 0) {
+        numerator += exponent * Math.log2(PRIMES[i]);
+      } else {
+        denominator -= exponent * Math.log2(PRIMES[i]);
+      }
+    });
+    return Math.max(numerator, denominator);
+  }
+
+  /**
+   * Calculate the Wilson complexity of the extended monzo i.e. the sum of the prime factors of n·d counted with multiplicity.
+   * @returns Wilson complexity of the interval.
+   * @throws An error if the extended monzo doesn't represent a positive rational number or if the residual has multiple prime factors too large to find by trial division.
+   */
+  wilsonComplexity() {
+    const vector = rationalVector(this, 'Wilson complexity');
+    const [n, d] = residualTerms(this.residual);
+    let result = bigSopfr(n) + bigSopfr(d);
+    vector.forEach((exponent, i) => {
+      result += Math.abs(exponent) * PRIMES[i];
+    });
+    return result;
+  }
+
+  /**
+   * Calculate the prime limit of the extended monzo i.e. the largest prime in the factorization of the ratio.
+   * @returns Prime limit of the interval. `1` for unison.
+   * @throws An error if the extended monzo doesn't represent a positive rational number or if the residual has multiple prime factors too large to find by trial division.
+   */
+  primeLimit() {
+    const vector = rationalVector(this, 'Prime limit');
+    const [n, d] = residualTerms(this.residual);
+    let result = Math.max(bigLargestPrimeFactor(n), bigLargestPrimeFactor(d));
+    vector.forEach((exponent, i) => {
+      if (exponent) {
+        result = Math.max(result, PRIMES[i]);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Calculate the odd limit of the extended monzo i.e. max(n, d) of the ratio n/d after removing factors of two.
+   * @returns Odd limit of the interval. May lose precision beyond `Number.MAX_SAFE_INTEGER`.
+   * @throws An error if the extended monzo doesn't represent a positive rational number.
+   */
+  oddLimit() {
+    const [numerator, denominator] = numeratorDenominator(this, 'Odd limit');
+    const n = oddPart(numerator);
+    const d = oddPart(denominator);
+    return Number(n > d ? n : d);
+  }
+
+  /**
+   * Calculate the integer limit of the extended monzo i.e. max(n, d) of the ratio n/d.
+   * @returns Integer limit of the interval. May lose precision beyond `Number.MAX_SAFE_INTEGER`.
+   * @throws An error if the extended monzo doesn't represent a positive rational number.
+   */
+  integerLimit() {
+    const [numerator, denominator] = numeratorDenominator(
+      this,
+      'Integer limit'
+    );
+    return Number(numerator > denominator ? numerator : denominator);
+  }
+
   /**
    * Return a pitch-space negative of the extended monzo.
    * @returns The frequency-space inverse of the extended monzo.
@@ -388,7 +880,7 @@ export class ExtendedMonzo {
     while (vector.length < this.vector.length) {
       vector.push(new Fraction(this.vector[vector.length]));
     }
-    const residual = this.residual.mul(other.residual);
+    const residual = mulResiduals(this.residual, other.residual);
     return new ExtendedMonzo(vector, residual, this.cents + other.cents);
   }
 
@@ -414,7 +906,7 @@ export class ExtendedMonzo {
         vector.push(new Fraction(this.vector[vector.length]));
       }
     }
-    const residual = this.residual.div(other.residual);
+    const residual = divResiduals(this.residual, other.residual);
     return new ExtendedMonzo(vector, residual, this.cents - other.cents);
   }
 
@@ -428,10 +920,13 @@ export class ExtendedMonzo {
       scalar = new Fraction(scalar);
     }
     const vector = this.vector.map(component => component.mul(scalar));
-    let residual: Fraction | null | undefined = this.residual.pow(scalar);
+    let residual: Residual | null | undefined = powResidual(
+      this.residual,
+      scalar
+    );
     let cents = this.cents;
     if (residual === null) {
-      cents += valueToCents(this.residual.valueOf());
+      cents += residualToCents(this.residual);
       residual = undefined;
     }
     cents *= scalar.valueOf();
@@ -448,12 +943,13 @@ export class ExtendedMonzo {
       scalar = new Fraction(scalar);
     }
     const vector = this.vector.map(component => component.div(scalar));
-    let residual: Fraction | null | undefined = this.residual.pow(
+    let residual: Residual | null | undefined = powResidual(
+      this.residual,
       scalar.inverse()
     );
     let cents = this.cents;
     if (residual === null) {
-      cents += valueToCents(this.residual.valueOf());
+      cents += residualToCents(this.residual);
       residual = undefined;
     }
     cents /= scalar.valueOf();
@@ -516,7 +1012,7 @@ export class ExtendedMonzo {
   strictEquals(other: ExtendedMonzo) {
     return (
       monzosEqual(this.vector, other.vector) &&
-      this.residual.equals(other.residual) &&
+      BigFraction.from(this.residual).equals(other.residual) &&
       this.cents === other.cents
     );
   }
@@ -526,7 +1022,7 @@ export class ExtendedMonzo {
    * @returns Size of the extended monzo in cents.
    */
   totalCents() {
-    let total = this.cents + valueToCents(this.residual.valueOf());
+    let total = this.cents + residualToCents(this.residual);
     this.vector.forEach(
       (component, i) => (total += component.valueOf() * PRIME_CENTS[i])
     );
@@ -554,11 +1050,45 @@ export class ExtendedMonzo {
 
   /**
    * Check if this extended monzo has the same size as another.
+   * Monzos without cents offsets are compared exactly regardless of the number of components.
+   * Otherwise the total sizes are compared up to a small tolerance.
    * @param other Another extended monzo.
    * @returns `true` if the extended monzos are of equal size.
    */
   equals(other: ExtendedMonzo) {
-    return this.totalCents() === other.totalCents();
+    if (this.cents || other.cents) {
+      return (
+        Math.abs(this.totalCents() - other.totalCents()) <= CENTS_TOLERANCE
+      );
+    }
+    const [vector, residual] = canonicalForm(this);
+    const [otherVector, otherResidual] = canonicalForm(other);
+    return monzosEqual(vector, otherVector) && residual.equals(otherResidual);
+  }
+
+  /**
+   * Obtain a string key for hashing extended monzos.
+   * Monzos without cents offsets are keyed by their exact canonical form so equal monzos always share the same key.
+   * Monzos with cents offsets are keyed by their size bucket (see {@link ExtendedMonzo.sizeBucket}) so matching keys should be confirmed with {@link ExtendedMonzo.equals}.
+   * @returns Key suitable for use in a `Map` or a `Set`.
+   */
+  hashKey() {
+    if (this.cents) {
+      return `~${this.sizeBucket()}`;
+    }
+    const [vector, residual] = canonicalForm(this);
+    return `${vector
+      .map(component => component.toFraction())
+      .join(',')}|${residual}`;
+  }
+
+  /**
+   * Obtain the index of the size bucket of the extended monzo.
+   * Buckets are as wide as the tolerance of {@link ExtendedMonzo.equals} so monzos of equal size fall in the same or adjacent buckets.
+   * @returns Index of the bucket containing the total size of the extended monzo.
+   */
+  sizeBucket() {
+    return Math.round(this.totalCents() / CENTS_TOLERANCE) || 0;
   }
 
   /**
@@ -620,3 +1150,194 @@ export class ExtendedMonzo {
     return ExtendedMonzo.fromFraction(result, this.numberOfComponents);
   }
 }
+
+/**
+ * Covector mapping prime exponents to steps of an equal temperament.
+ *
+ * Used to count steps of equal temperaments e.g. <12 19 28] maps 3/2 = [-1 1 0> to 7 steps of 12-tone equal temperament.
+ */
+export class Val {
+  vector: FractionalMonzo;
+
+  /**
+   * Construct a val.
+   * @param vector Number of steps mapped to each prime.
+   */
+  constructor(vector: FractionalMonzo) {
+    this.vector = vector;
+  }
+
+  /**
+   * Construct a val from an array of step counts.
+   * @param components Number of steps mapped to each prime.
+   * @returns Val with the given components.
+   */
+  static fromArray(components: FractionValue[]) {
+    return new Val(components.map(component => new Fraction(component)));
+  }
+
+  /**
+   * Construct the patent val of an equal temperament where each prime is mapped to the nearest number of steps.
+   * @param divisions Number of steps in the equave.
+   * @param numberOfComponents Number of primes to map i.e. the prime limit as an ordinal.
+   * @param equave Equave of the equal temperament. Defaults to the octave (2/1).
+   * @returns The patent val.
+   * @throws An error if the number of divisions is not a positive integer.
+   */
+  static fromPatent(
+    divisions: number,
+    numberOfComponents: number,
+    equave: FractionValue = 2
+  ) {
+    if (divisions <= 0 || divisions !== Math.round(divisions)) {
+      throw new Error('Number of divisions must be a positive integer');
+    }
+    return Val.fromNearest(divisions, numberOfComponents, equave);
+  }
+
+  /**
+   * Construct the generalized patent val of an equal temperament with a possibly non-integral number of divisions.
+   * Each prime is mapped to the nearest number of steps e.g. 16.9 divisions of the octave gives <17 27 39].
+   * @param divisions Number of steps in the equave. Need not be an integer.
+   * @param numberOfComponents Number of primes to map i.e. the prime limit as an ordinal.
+   * @param equave Equave of the equal temperament. Defaults to the octave (2/1).
+   * @returns The nearest val.
+   */
+  static fromNearest(
+    divisions: number,
+    numberOfComponents: number,
+    equave: FractionValue = 2
+  ) {
+    const stepsPerCent =
+      divisions / valueToCents(new Fraction(equave).valueOf());
+    const vector: FractionalMonzo = [];
+    for (let i = 0; i < numberOfComponents; ++i) {
+      vector.push(new Fraction(Math.round(PRIME_CENTS[i] * stepsPerCent)));
+    }
+    return new Val(vector);
+  }
+
+  /**
+   * Number of primes mapped by the val.
+   */
+  get numberOfComponents() {
+    return this.vector.length;
+  }
+
+  /**
+   * Create a deep copy of this val.
+   * @returns A clone with independent vector part.
+   */
+  clone() {
+    return new Val(this.vector.map(component => new Fraction(component)));
+  }
+
+  /**
+   * Map an extended monzo to steps of the equal temperament.
+   * @param monzo Extended monzo to map.
+   * @returns The number of steps as a fraction.
+   * @throws An error if the extended monzo has a cents offset or lies outside of the prime limit of the val.
+   */
+  map(monzo: ExtendedMonzo): Fraction {
+    if (monzo.cents) {
+      throw new Error('Cannot map monzo with offset');
+    }
+    let result = new Fraction(0);
+    monzo.vector.forEach((component, i) => {
+      if (component.equals(0)) {
+        return;
+      }
+      if (i >= this.numberOfComponents) {
+        throw new Error('Monzo outside of the prime limit of the val');
+      }
+      result = result.add(component.mul(this.vector[i]));
+    });
+    if (!monzo.residual.equals(1)) {
+      if (monzo.residual.equals(0)) {
+        throw new Error('Cannot map zero');
+      }
+      const [vector, residual] = BigFraction.from(
+        monzo.residual
+      ).toMonzoAndResidual(this.numberOfComponents);
+      if (!residual.equals(1)) {
+        throw new Error('Monzo outside of the prime limit of the val');
+      }
+      vector.forEach((component, i) => {
+        result = result.add(this.vector[i].mul(component));
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Return the negative of the val.
+   * @returns The val with every component negated.
+   */
+  neg() {
+    return new Val(this.vector.map(component => component.neg()));
+  }
+
+  /**
+   * Add another val to this one.
+   * @param other Another val.
+   * @returns The sum of the vals. Missing components are treated as zero.
+   */
+  add(other: Val): Val {
+    if (this.numberOfComponents < other.numberOfComponents) {
+      return other.add(this);
+    }
+    return new Val(
+      this.vector.map((component, i) =>
+        i < other.numberOfComponents
+          ? component.add(other.vector[i])
+          : component
+      )
+    );
+  }
+
+  /**
+   * Subtract another val from this one.
+   * @param other Another val.
+   * @returns The difference of the vals. Missing components are treated as zero.
+   */
+  sub(other: Val) {
+    return this.add(other.neg());
+  }
+
+  /**
+   * Multiply the val by a scalar.
+   * @param scalar Scaling factor.
+   * @returns The rescaled val.
+   */
+  mul(scalar: FractionValue) {
+    return new Val(this.vector.map(component => component.mul(scalar)));
+  }
+
+  /**
+   * Check if this val is equal to another. Missing components are treated as zero.
+   * @param other Another val.
+   * @returns `true` if the vals map every monzo to the same number of steps.
+   */
+  equals(other: Val) {
+    const length = Math.max(this.numberOfComponents, other.numberOfComponents);
+    for (let i = 0; i < length; ++i) {
+      const a = this.vector[i] ?? new Fraction(0);
+      const b = other.vector[i] ?? new Fraction(0);
+      if (!a.equals(b)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Bra representation of the val.
+   * Example: `'<12 19 28]'`
+   * @returns The val formatted in bra notation.
+   */
+  toString() {
+    return (
+      '<' + this.vector.map(component => component.toFraction()).join(' ') + ']'
+    );
+  }
+}
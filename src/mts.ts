@@ -0,0 +1,269 @@
+import {ftomts, valueToCents} from 'xen-dev-utils';
+import {getFrequencyTable, type KeyboardMapping} from './keyboard-mapping';
+import {Scale} from './scale';
+
+const SYSEX_START = 0xf0;
+const SYSEX_END = 0xf7;
+const NON_REAL_TIME = 0x7e;
+const REAL_TIME = 0x7f;
+const MIDI_TUNING = 0x08;
+const BULK_DUMP_REPLY = 0x01;
+const SINGLE_NOTE_TUNING_CHANGE = 0x02;
+const SCALE_OCTAVE_1_BYTE = 0x08;
+const SCALE_OCTAVE_2_BYTE = 0x09;
+
+/** Device ID that addresses every device. */
+export const MTS_ALL_DEVICES = 0x7f;
+
+// Largest frequency data value. 7F 7F 7F is reserved for "no change".
+const MAX_MTS_DATA = 0x1ffffe;
+
+// Maximum number of changes in a single note tuning change message.
+const MAX_CHANGES = 127;
+
+/**
+ * Convert a frequency to the 3-byte MTS frequency data format.
+ * The first byte is the semitone (A440 = 69) and the last two bytes are the 14-bit fraction of a semitone.
+ * Frequencies below 8.1758 Hz are clamped to `00 00 00` and frequencies above 13289.656 Hz to `7F 7F 7E`.
+ * Missing frequencies are encoded as `7F 7F 7F` meaning "no change".
+ * @param frequency Frequency in Hz or `null` for no change.
+ * @returns An array of three 7-bit bytes.
+ */
+export function frequencyToMtsData(frequency: number | null) {
+  if (frequency === null) {
+    return [0x7f, 0x7f, 0x7f];
+  }
+  const value = Math.max(
+    0,
+    Math.min(MAX_MTS_DATA, Math.round(ftomts(frequency, true) * 0x4000))
+  );
+  return [value >> 14, (value >> 7) & 0x7f, value & 0x7f];
+}
+
+/**
+ * Calculate the checksum of a bulk tuning dump.
+ * @param data Bytes of the message excluding the SysEx start, checksum and SysEx end.
+ * @returns Exclusive OR of the bytes masked to 7 bits.
+ */
+function checksum(data: number[]) {
+  return data.reduce((a, b) => a ^ b, 0) & 0x7f;
+}
+
+/**
+ * Encode a tuning name as 16 7-bit ASCII characters padded with spaces.
+ * @param name Name of the tuning.
+ * @returns An array of 16 bytes.
+ */
+function encodeName(name: string) {
+  const result: number[] = [];
+  for (let i = 0; i < 16; ++i) {
+    const code = i < name.length ? name.charCodeAt(i) : 0x20;
+    // Replace non-ASCII characters with question marks
+    result.push(code < 0x80 ? code : 0x3f);
+  }
+  return result;
+}
+
+/**
+ * Encode MIDI channels as a three byte bitmask used in scale/octave tuning messages.
+ * @param channels Zero-based MIDI channels.
+ * @returns An array of three bytes covering channels 15-16, 8-14 and 1-7 respectively.
+ */
+function encodeChannels(channels: number[]) {
+  let mask = 0;
+  channels.forEach(channel => {
+    if (channel < 0 || channel > 15 || channel !== Math.floor(channel)) {
+      throw new Error(`Invalid MIDI channel ${channel}`);
+    }
+    mask |= 1 << channel;
+  });
+  return [(mask >> 14) & 0x03, (mask >> 7) & 0x7f, mask & 0x7f];
+}
+
+/**
+ * Validate a 7-bit value in a SysEx message.
+ * @param value Value to validate.
+ * @param field Name of the field for error reporting.
+ * @returns The value.
+ * @throws An error if the value doesn't fit in 7 bits.
+ */
+function validateByte(value: number, field: string) {
+  if (value < 0 || value > 0x7f || value !== Math.floor(value)) {
+    throw new Error(`Invalid ${field} ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Generate a MIDI Tuning Standard bulk tuning dump (non-real-time 08 01) for all 128 keys.
+ * Unmapped keys are encoded as "no change".
+ * @param scale Musical scale to tune to.
+ * @param mapping Keyboard mapping of the scale.
+ * @param name Name of the tuning. Truncated to 16 ASCII characters.
+ * @param tuningProgram Tuning program number (0-127).
+ * @param deviceId Device ID of the receiver (0-127).
+ * @returns The SysEx message including the checksum.
+ */
+export function bulkTuningDump(
+  scale: Scale,
+  mapping: KeyboardMapping,
+  name = '',
+  tuningProgram = 0,
+  deviceId = MTS_ALL_DEVICES
+) {
+  const data = [
+    NON_REAL_TIME,
+    validateByte(deviceId, 'device ID'),
+    MIDI_TUNING,
+    BULK_DUMP_REPLY,
+    validateByte(tuningProgram, 'tuning program'),
+    ...encodeName(name),
+  ];
+  getFrequencyTable(scale, mapping).forEach(frequency => {
+    data.push(...frequencyToMtsData(frequency));
+  });
+  return new Uint8Array([SYSEX_START, ...data, checksum(data), SYSEX_END]);
+}
+
+/**
+ * Generate MIDI Tuning Standard single note tuning changes (real-time 08 02).
+ * A single message can hold at most 127 changes so the changes are split into multiple messages if necessary.
+ * @param scale Musical scale to tune to.
+ * @param mapping Keyboard mapping of the scale.
+ * @param keys MIDI keys to retune. Defaults to every mapped key.
+ * @param tuningProgram Tuning program number (0-127).
+ * @param deviceId Device ID of the receiver (0-127).
+ * @returns An array of SysEx messages.
+ */
+export function singleNoteTuningChange(
+  scale: Scale,
+  mapping: KeyboardMapping,
+  keys?: number[],
+  tuningProgram = 0,
+  deviceId = MTS_ALL_DEVICES
+) {
+  const frequencies = getFrequencyTable(scale, mapping);
+  if (keys === undefined) {
+    keys = [];
+    frequencies.forEach((frequency, key) => {
+      if (frequency !== null) {
+        keys!.push(key);
+      }
+    });
+  }
+  const result: Uint8Array[] = [];
+  for (let i = 0; i < keys.length; i += MAX_CHANGES) {
+    const chunk = keys.slice(i, i + MAX_CHANGES);
+    const data = [
+      SYSEX_START,
+      REAL_TIME,
+      validateByte(deviceId, 'device ID'),
+      MIDI_TUNING,
+      SINGLE_NOTE_TUNING_CHANGE,
+      validateByte(tuningProgram, 'tuning program'),
+      chunk.length,
+    ];
+    chunk.forEach(key => {
+      data.push(
+        validateByte(key, 'key'),
+        ...frequencyToMtsData(frequencies[key])
+      );
+    });
+    data.push(SYSEX_END);
+    result.push(new Uint8Array(data));
+  }
+  return result;
+}
+
+/**
+ * Calculate the offsets of the twelve pitch classes from 12-tone equal temperament.
+ * Keys from the octave starting at middle C are preferred. Pitch classes without mapped keys have zero offset.
+ * @param scale Musical scale to tune to.
+ * @param mapping Keyboard mapping of the scale.
+ * @returns An array of twelve offsets in cents starting from C.
+ */
+export function getOctaveTuningOffsets(scale: Scale, mapping: KeyboardMapping) {
+  const frequencies = getFrequencyTable(scale, mapping);
+  const result: number[] = [];
+  for (let pitchClass = 0; pitchClass < 12; ++pitchClass) {
+    let offset = 0;
+    for (const octave of [5, 4, 6, 3, 7, 2, 8, 1, 9, 0, 10]) {
+      const key = octave * 12 + pitchClass;
+      const frequency = frequencies[key];
+      if (frequency !== undefined && frequency !== null) {
+        offset = valueToCents(frequency / 440) - (key - 69) * 100;
+        break;
+      }
+    }
+    result.push(offset);
+  }
+  return result;
+}
+
+/**
+ * Generate a MIDI Tuning Standard scale/octave tuning message in the 1-byte form (08 08).
+ * Offsets are rounded to whole cents and clamped to the range from -64 to +63 cents.
+ * @param scale Musical scale to tune to. Should repeat at the octave.
+ * @param mapping Keyboard mapping of the scale.
+ * @param channels Zero-based MIDI channels to retune. Defaults to all channels.
+ * @param realTime Generate a real-time message instead of a non-real-time one.
+ * @param deviceId Device ID of the receiver (0-127).
+ * @returns The SysEx message.
+ */
+export function scaleOctaveTuning1Byte(
+  scale: Scale,
+  mapping: KeyboardMapping,
+  channels?: number[],
+  realTime = false,
+  deviceId = MTS_ALL_DEVICES
+) {
+  const data = [
+    SYSEX_START,
+    realTime ? REAL_TIME : NON_REAL_TIME,
+    validateByte(deviceId, 'device ID'),
+    MIDI_TUNING,
+    SCALE_OCTAVE_1_BYTE,
+    ...encodeChannels(channels ?? [...Array(16).keys()]),
+  ];
+  getOctaveTuningOffsets(scale, mapping).forEach(offset => {
+    data.push(Math.max(0, Math.min(0x7f, Math.round(offset) + 0x40)));
+  });
+  data.push(SYSEX_END);
+  return new Uint8Array(data);
+}
+
+/**
+ * Generate a MIDI Tuning Standard scale/octave tuning message in the 2-byte form (08 09).
+ * Offsets are encoded as 14-bit values in units of 100/8192 cents and clamped to the range from -100 to +99.988 cents.
+ * @param scale Musical scale to tune to. Should repeat at the octave.
+ * @param mapping Keyboard mapping of the scale.
+ * @param channels Zero-based MIDI channels to retune. Defaults to all channels.
+ * @param realTime Generate a real-time message instead of a non-real-time one.
+ * @param deviceId Device ID of the receiver (0-127).
+ * @returns The SysEx message.
+ */
+export function scaleOctaveTuning2Byte(
+  scale: Scale,
+  mapping: KeyboardMapping,
+  channels?: number[],
+  realTime = false,
+  deviceId = MTS_ALL_DEVICES
+) {
+  const data = [
+    SYSEX_START,
+    realTime ? REAL_TIME : NON_REAL_TIME,
+    validateByte(deviceId, 'device ID'),
+    MIDI_TUNING,
+    SCALE_OCTAVE_2_BYTE,
+    ...encodeChannels(channels ?? [...Array(16).keys()]),
+  ];
+  getOctaveTuningOffsets(scale, mapping).forEach(offset => {
+    const value = Math.max(
+      0,
+      Math.min(0x3fff, Math.round((offset * 0x2000) / 100) + 0x2000)
+    );
+    data.push(value >> 7, value & 0x7f);
+  });
+  data.push(SYSEX_END);
+  return new Uint8Array(data);
+}
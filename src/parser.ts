@@ -1,8 +1,12 @@
-import {ExtendedMonzo} from './monzo';
+import {ExtendedMonzo, Val} from './monzo';
 import {Interval, type IntervalOptions} from './interval';
 import {Fraction, PRIMES, PRIME_CENTS} from 'xen-dev-utils';
 import {Scale} from './scale';
-import {parse} from './sw2-ast';
+import {parse, SyntaxError as PeggySyntaxError} from './sw2-ast';
+import {stringToNumeratorDenominator} from './utils';
+
+// Largest integer that Scala can read as a part of a ratio.
+const SCALA_MAX_INTEGER = 2147483647;
 
 /**
  * The types of intervals strings can represent.
@@ -10,6 +14,7 @@ import {parse} from './sw2-ast';
 export enum LINE_TYPE {
   NUMBER = 'number',
   CENTS = 'cents',
+  FREQUENCY = 'frequency',
   DECIMAL = 'decimal',
   RATIO = 'ratio',
   N_OF_EDO = 'n of edo',
@@ -19,6 +24,115 @@ export enum LINE_TYPE {
   INVALID = 'invalid',
 }
 
+/**
+ * The reasons a string can fail to represent an interval.
+ */
+export enum PARSE_ERROR_REASON {
+  BARE_NUMBER = 'bare number',
+  UNIVERSAL_MINUS = 'universal minus',
+  UNSAFE_FRACTION = 'unsafe fraction',
+  UNKNOWN_TOKEN = 'unknown token',
+  INVALID_VALUE = 'invalid value',
+  INVALID_PITCH = 'invalid pitch',
+}
+
+/**
+ * Error thrown when a scale line cannot be parsed.
+ */
+export class ScaleParseError extends Error {
+  /** Machine-readable reason for the error. */
+  reason: PARSE_ERROR_REASON;
+  /** Zero-based index of the offending line. */
+  lineIndex: number;
+  /** Zero-based column where the offending text starts. */
+  start: number;
+  /** Zero-based column where the offending text ends (exclusive). */
+  end: number;
+  /** The offending text. */
+  text: string;
+
+  /**
+   * Construct a new parse error.
+   * @param message Human-readable description of the error.
+   * @param reason Machine-readable reason for the error.
+   * @param line The line that failed to parse.
+   * @param start Column where the offending text starts.
+   * @param end Column where the offending text ends (exclusive).
+   * @param lineIndex Index of the line in a multi-line input.
+   */
+  constructor(
+    message: string,
+    reason: PARSE_ERROR_REASON,
+    line: string,
+    start: number,
+    end: number,
+    lineIndex = 0
+  ) {
+    super(message);
+    this.name = 'ScaleParseError';
+    this.reason = reason;
+    this.lineIndex = lineIndex;
+    this.start = start;
+    this.end = end;
+    this.text = line.slice(start, end);
+  }
+}
+
+/**
+ * Construct a parse error that concerns the whole line excluding surrounding whitespace.
+ * @param message Human-readable description of the error.
+ * @param reason Machine-readable reason for the error.
+ * @param line The line that failed to parse.
+ * @returns A new parse error.
+ */
+function lineError(message: string, reason: PARSE_ERROR_REASON, line: string) {
+  const start = line.length - line.trimStart().length;
+  const end = line.trimEnd().length;
+  return new ScaleParseError(
+    message,
+    reason,
+    line,
+    start,
+    Math.max(start, end)
+  );
+}
+
+/**
+ * Convert an error thrown by the generated parser into a structured one.
+ * @param error Syntax error from the generated parser.
+ * @param line The line that failed to parse.
+ * @returns A new parse error.
+ */
+function syntaxError(error: unknown, line: string) {
+  if (!(error instanceof PeggySyntaxError)) {
+    throw error;
+  }
+  // The generated parser lacks type information
+  const {message, location} = error as unknown as {
+    message: string;
+    location: {start: {offset: number}; end: {offset: number}};
+  };
+  const {start, end} = location;
+  if (message === 'Unsafe fraction') {
+    return new ScaleParseError(
+      message,
+      PARSE_ERROR_REASON.UNSAFE_FRACTION,
+      line,
+      start.offset,
+      end.offset
+    );
+  }
+  // Highlight the unknown token until the next whitespace
+  const tokenEnd = line.slice(start.offset).search(/\s|$/) + start.offset;
+  return new ScaleParseError(
+    message,
+    PARSE_ERROR_REASON.UNKNOWN_TOKEN,
+    line,
+    start.offset,
+    Math.max(tokenEnd, end.offset)
+  );
+}
+
 // Abstract Syntax Tree hierarchy
 type PlainLiteral = {
   type: 'PlainLiteral';
@@ -31,6 +145,12 @@ type CentsLiteral = {
   fractional: string | null;
 };
 
+type FrequencyLiteral = {
+  type: 'FrequencyLiteral';
+  whole: number;
+  fractional: string | null;
+};
+
 type NumericLiteral = {
   type: 'NumericLiteral';
   whole: number | null;
@@ -47,12 +167,19 @@ type EdjiFraction = {
   type: 'EdjiFraction';
   numerator?: number;
   denominator: number;
-  equave: null | PlainLiteral | FractionLiteral;
+  equave: null | PlainLiteral | FractionLiteral | CentsLiteral;
 };
 
+// Components refer to the basis of a subgroup if given. Otherwise they're prime exponents.
 type Monzo = {
   type: 'Monzo';
   components: string[];
+  basis: string[] | null;
+};
+
+type ParenthesizedExpression = {
+  type: 'ParenthesizedExpression';
+  expression: Expression;
 };
 
 type UnaryExpression = {
@@ -61,27 +188,60 @@ type UnaryExpression = {
   operand: Expression;
 };
 
-type BinaryExpression = {
+type AdditiveExpression = {
   type: 'BinaryExpression';
   operator: '+' | '-';
   left: Expression;
   right: Expression;
 };
 
+// Scaling in pitch-space: '*' multiplies and '%' divides by the scalar.
+type MultiplicativeExpression = {
+  type: 'BinaryExpression';
+  operator: '*' | '%';
+  left: Expression;
+  right: FractionLiteral;
+};
+
+type BinaryExpression = AdditiveExpression | MultiplicativeExpression;
+
 type Expression =
   | PlainLiteral
   | CentsLiteral
+  | FrequencyLiteral
   | NumericLiteral
   | FractionLiteral
   | EdjiFraction
   | Monzo
+  | ParenthesizedExpression
   | UnaryExpression
   | BinaryExpression;
 
+type ValLiteral = {
+  type: 'Val';
+  components: string[];
+};
+
 function parseAst(input: string): Expression {
   return parse(input);
 }
 
+/**
+ * Parse a string in bra notation such as `<12 19 28]` to a {@link Val} instance.
+ * @param input Input string.
+ * @returns Val mapping primes to the given numbers of steps.
+ * @throws A {@link ScaleParseError} if the input cannot be interpreted as a val.
+ */
+export function parseVal(input: string): Val {
+  let ast: ValLiteral;
+  try {
+    ast = parse(input, {startRule: 'Val'});
+  } catch (error) {
+    throw syntaxError(error, input);
+  }
+  return Val.fromArray(ast.components);
+}
+
 /**
  * Determine the type of interval a string represents.
  * @param input String to analyze.
@@ -101,6 +261,8 @@ function getAstType(ast: Expression): LINE_TYPE {
       return LINE_TYPE.NUMBER;
     case 'CentsLiteral':
       return LINE_TYPE.CENTS;
+    case 'FrequencyLiteral':
+      return LINE_TYPE.FREQUENCY;
     case 'NumericLiteral':
       return LINE_TYPE.DECIMAL;
     case 'FractionLiteral':
@@ -109,6 +271,8 @@ function getAstType(ast: Expression): LINE_TYPE {
       return ast.equave ? LINE_TYPE.N_OF_EDJI : LINE_TYPE.N_OF_EDO;
     case 'Monzo':
       return LINE_TYPE.MONZO;
+    case 'ParenthesizedExpression':
+      return getAstType(ast.expression);
     case 'UnaryExpression':
       return getAstType(ast.operand);
     case 'BinaryExpression':
@@ -116,6 +280,17 @@ function getAstType(ast: Expression): LINE_TYPE {
   }
 }
 
+// Parentheses and unary minus don't change the line type
+function isBareNumber(ast: Expression): boolean {
+  if (ast.type === 'ParenthesizedExpression') {
+    return isBareNumber(ast.expression);
+  }
+  if (ast.type === 'UnaryExpression') {
+    return isBareNumber(ast.operand);
+  }
+  return ast.type === 'PlainLiteral';
+}
+
 function parseDegenerateFloat(whole: number | null, fractional: string | null) {
   return parseFloat(`${whole ?? 0}.${fractional ?? ''}`);
 }
@@ -127,37 +302,61 @@ function parseDegenerateFloat(whole: number | null, fractional: string | null) {
  * @param options Formatting options.
  * @param admitBareNumbers Interprete bare numbers as n/1 ratios instead of throwing an error.
  * @param universalMinus Allow unary minus operator in front of every line type.
+ * @param baseFrequency Base frequency of plain 1/1 for interpreting absolute frequencies. Defaults to the one in the formatting options.
  * @returns {@link Interval} instance constructed from the input string.
- * @throws An error if the input cannot be interpreted as an interval.
+ * @throws A {@link ScaleParseError} if the input cannot be interpreted as an interval.
  */
 export function parseLine(
   input: string,
   numberOfComponents: number,
   options?: IntervalOptions,
   admitBareNumbers = false,
-  universalMinus = true
+  universalMinus = true,
+  baseFrequency?: number
 ): Interval {
-  const ast = parseAst(input);
+  let ast: Expression;
+  try {
+    ast = parseAst(input);
+  } catch (error) {
+    throw syntaxError(error, input);
+  }
   if (!universalMinus && ast.type === 'UnaryExpression') {
     if (ast.operand.type !== 'CentsLiteral') {
-      throw new Error('Univeral minus violation');
+      throw lineError(
+        'Universal minus violation',
+        PARSE_ERROR_REASON.UNIVERSAL_MINUS,
+        input
+      );
     }
   }
-  if (
-    !admitBareNumbers &&
-    (ast.type === 'PlainLiteral' ||
-      (ast.type === 'UnaryExpression' && ast.operand.type === 'PlainLiteral'))
-  ) {
-    throw new Error('Bare numbers not allowed');
+  if (!admitBareNumbers && isBareNumber(ast)) {
+    throw lineError(
+      'Bare numbers not allowed',
+      PARSE_ERROR_REASON.BARE_NUMBER,
+      input
+    );
+  }
+  try {
+    return evaluateAst(ast, numberOfComponents, input, options, baseFrequency);
+  } catch (error) {
+    if (error instanceof ScaleParseError) {
+      throw error;
+    }
+    // Arithmetic errors such as division by zero surface during evaluation
+    throw lineError(
+      error instanceof Error ? error.message : String(error),
+      PARSE_ERROR_REASON.INVALID_VALUE,
+      input
+    );
   }
-  return evaluateAst(ast, numberOfComponents, input, options);
 }
 
 function evaluateAst(
   ast: Expression,
   numberOfComponents: number,
   name?: string,
-  options?: IntervalOptions
+  options?: IntervalOptions,
+  baseFrequency?: number
 ): Interval {
   switch (ast.type) {
     case 'PlainLiteral':
@@ -177,6 +376,20 @@ function evaluateAst(
         name,
         options
       );
+    case 'FrequencyLiteral':
+      baseFrequency ??= options?.baseFrequency;
+      if (baseFrequency === undefined) {
+        throw new Error('Base frequency required for absolute frequencies');
+      }
+      return new Interval(
+        ExtendedMonzo.fromValue(
+          parseDegenerateFloat(ast.whole, ast.fractional) / baseFrequency,
+          numberOfComponents
+        ),
+        'frequency',
+        name,
+        {...options, baseFrequency}
+      );
     case 'NumericLiteral':
       return new Interval(
         ExtendedMonzo.fromValue(
@@ -200,6 +413,26 @@ function evaluateAst(
   }
   if (ast.type === 'EdjiFraction') {
     const fractionOfEquave = new Fraction(ast.numerator ?? 0, ast.denominator);
+    if (ast.equave?.type === 'CentsLiteral') {
+      const equaveCents = parseDegenerateFloat(
+        ast.equave.whole,
+        ast.equave.fractional
+      );
+      if (options === undefined) {
+        options = {
+          preferredEtDenominator: ast.denominator,
+          preferredEtEquaveCents: equaveCents,
+        };
+      }
+      return new Interval(
+        ExtendedMonzo.fromCents(equaveCents, numberOfComponents).mul(
+          fractionOfEquave
+        ),
+        'equal temperament',
+        name,
+        options
+      );
+    }
     let equave: Fraction | undefined;
     if (ast.equave?.type === 'PlainLiteral') {
       equave = new Fraction(ast.equave.value);
@@ -224,6 +457,23 @@ function evaluateAst(
     );
   } else if (ast.type === 'Monzo') {
     const components = ast.components.map(c => new Fraction(c));
+    if (ast.basis !== null) {
+      if (components.length > ast.basis.length) {
+        throw new Error('Too many components for the subgroup');
+      }
+      let monzo = ExtendedMonzo.fromFraction(1, numberOfComponents);
+      components.forEach((component, i) => {
+        monzo = monzo.add(
+          ExtendedMonzo.fromFraction(ast.basis![i], numberOfComponents).mul(
+            component
+          )
+        );
+      });
+      return new Interval(monzo, 'monzo', name, {
+        ...options,
+        preferredSubgroup: ast.basis.map(element => new Fraction(element)),
+      });
+    }
     while (components.length < numberOfComponents) {
       components.push(new Fraction(0));
     }
@@ -244,13 +494,47 @@ function evaluateAst(
       name,
       options
     );
+  } else if (ast.type === 'ParenthesizedExpression') {
+    return evaluateAst(
+      ast.expression,
+      numberOfComponents,
+      name,
+      options,
+      baseFrequency
+    );
   } else if (ast.type === 'UnaryExpression') {
-    const operand = evaluateAst(ast.operand, numberOfComponents, name, options);
+    const operand = evaluateAst(
+      ast.operand,
+      numberOfComponents,
+      name,
+      options,
+      baseFrequency
+    );
     operand.monzo = operand.monzo.neg();
     return operand;
   }
-  const left = evaluateAst(ast.left, numberOfComponents, undefined, options);
-  const right = evaluateAst(ast.right, numberOfComponents, undefined, options);
+  const left = evaluateAst(
+    ast.left,
+    numberOfComponents,
+    undefined,
+    options,
+    baseFrequency
+  );
+  if (ast.operator === '*' || ast.operator === '%') {
+    const scalar = new Fraction(ast.right.numerator, ast.right.denominator);
+    const result = ast.operator === '*' ? left.mul(scalar) : left.div(scalar);
+    if (name !== undefined) {
+      result.name = name;
+    }
+    return result;
+  }
+  const right = evaluateAst(
+    ast.right,
+    numberOfComponents,
+    undefined,
+    options,
+    baseFrequency
+  );
   if (ast.operator === '+') {
     const result = left.add(right);
     if (name !== undefined) {
@@ -301,20 +585,148 @@ export function parseChord(
  * @param numberOfComponents Number of components in monzo vector parts.
  * @param baseFrequency Base frequency of plain 1/1.
  * @param options Formatting options.
+ * @param errors Collect errors into this array and skip the offending lines instead of throwing on the first error.
  * @returns A {@link Scale} instance constructed from the input string.
+ * @throws A {@link ScaleParseError} with the index of the offending line if a line cannot be parsed and `errors` is not given.
  */
 export function parseScale(
   input: string,
   numberOfComponents: number,
   baseFrequency = 440.0,
-  options?: IntervalOptions
+  options?: IntervalOptions,
+  errors?: ScaleParseError[]
 ) {
-  const intervals = input
-    .split('\n')
-    .map(line => parseLine(line, numberOfComponents, options));
+  const intervals: Interval[] = [];
+  input.split('\n').forEach((line, lineIndex) => {
+    try {
+      intervals.push(
+        parseLine(line, numberOfComponents, options, false, true, baseFrequency)
+      );
+    } catch (error) {
+      if (!(error instanceof ScaleParseError)) {
+        throw error;
+      }
+      error.lineIndex = lineIndex;
+      if (errors === undefined) {
+        throw error;
+      }
+      errors.push(error);
+    }
+  });
   return Scale.fromIntervalArray(intervals, baseFrequency);
 }
 
+/** Contents of a Scala .scl file. */
+export type ScalaFile = {
+  /** Description of the scale from the first non-comment line. */
+  description: string;
+  /** The musical scale defined by the pitch lines. */
+  scale: Scale;
+};
+
+/**
+ * Parse a single pitch line of a Scala .scl file.
+ * @param line Pitch line possibly followed by arbitrary text.
+ * @param lineIndex Index of the line in the file.
+ * @param numberOfComponents Number of components to use for the {@link Interval} instance's monzo vector part.
+ * @param options Formatting options.
+ * @returns {@link Interval} instance constructed from the pitch value.
+ * @throws A {@link ScaleParseError} with the index of the line if the pitch value is not valid in Scala.
+ */
+function parseScalaPitch(
+  line: string,
+  lineIndex: number,
+  numberOfComponents: number,
+  options?: IntervalOptions
+) {
+  const start = line.length - line.trimStart().length;
+  const value = line.trim().split(/\s/)[0];
+  const pitchError = (message: string) =>
+    new ScaleParseError(
+      message,
+      PARSE_ERROR_REASON.INVALID_PITCH,
+      line,
+      start,
+      start + value.length,
+      lineIndex
+    );
+  let offset = start;
+  let interval: () => Interval;
+  if (value.includes('.')) {
+    if (!/^[+-]?(\d+\.\d*|\.\d+)$/.test(value)) {
+      throw pitchError(`Invalid cents value '${value}'`);
+    }
+    const cents = value.replace('+', '');
+    offset += value.length - cents.length;
+    interval = () =>
+      parseLine(cents, numberOfComponents, options, false, false);
+  } else {
+    if (!/^\d+(\/\d+)?$/.test(value)) {
+      throw pitchError(`Invalid ratio '${value}'`);
+    }
+    const [numerator, denominator] = stringToNumeratorDenominator(value);
+    if (numerator === 0 || denominator === 0) {
+      throw pitchError(`Invalid ratio '${value}'`);
+    }
+    interval = () => parseLine(value, numberOfComponents, options, true, false);
+  }
+  try {
+    return interval();
+  } catch (error) {
+    if (error instanceof ScaleParseError) {
+      error.start += offset;
+      error.end += offset;
+      error.lineIndex = lineIndex;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse the contents of a Scala .scl file into a {@link Scale} instance.
+ *
+ * Lines starting with `!` are comments. The first non-comment line is the description (possibly empty)
+ * followed by the number of notes and then one pitch per line. Pitches containing a period are cents,
+ * other pitches are ratios or integers. Any text after the pitch value is ignored.
+ * @param input Contents of a .scl file.
+ * @param numberOfComponents Number of components in monzo vector parts.
+ * @param baseFrequency Base frequency of 1/1.
+ * @param options Formatting options.
+ * @returns The description and the {@link Scale} instance constructed from the file.
+ * @throws A {@link ScaleParseError} with the index of the offending line if a pitch is invalid or an error if the header is malformed or the number of pitches doesn't match the declared count.
+ */
+export function parseScalaFile(
+  input: string,
+  numberOfComponents: number,
+  baseFrequency = 440.0,
+  options?: IntervalOptions
+): ScalaFile {
+  const lines = input.split(/\r?\n/);
+  const indices = [...lines.keys()].filter(i => !lines[i].startsWith('!'));
+  if (indices.length < 2) {
+    throw new Error('Missing description or note count');
+  }
+  const description = lines[indices[0]].trim();
+  const countString = lines[indices[1]].trim().split(/\s/)[0];
+  if (!/^\d+$/.test(countString)) {
+    throw new Error(`Invalid note count '${countString}'`);
+  }
+  const count = parseInt(countString);
+  const intervals = indices
+    .slice(2)
+    .filter(i => lines[i].trim().length)
+    .map(i => parseScalaPitch(lines[i], i, numberOfComponents, options));
+  if (intervals.length !== count) {
+    throw new Error(
+      `Note count mismatch: declared ${count}, found ${intervals.length}`
+    );
+  }
+  return {
+    description,
+    scale: Scale.fromIntervalArray(intervals, baseFrequency),
+  };
+}
+
 /**
  * Parse a colon- or whitespace-separated string into a {@link Scale} instance.
  * @param input Colon- or whitespace-separated string of substrings to parse.
@@ -385,3 +797,58 @@ export function reverseParseScale(
   );
   return result;
 }
+
+/**
+ * Convert an interval to a pitch value understood by Scala.
+ * @param interval {@link Interval} instance to be converted.
+ * @param centsFractionDigits Number of digits after the decimal point when formatted as cents.
+ * @returns Ratio if the interval is a fraction that fits in Scala's 32-bit integers, otherwise cents.
+ */
+function intervalToScalaPitch(interval: Interval, centsFractionDigits: number) {
+  if (interval.monzo.isFractional()) {
+    const fraction = interval.monzo.toFraction();
+    if (fraction.n <= SCALA_MAX_INTEGER && fraction.d <= SCALA_MAX_INTEGER) {
+      return `${fraction.n}/${fraction.d}`;
+    }
+  }
+  const result = interval.totalCents().toFixed(centsFractionDigits);
+  if (!result.includes('.')) {
+    return result + '.';
+  }
+  return result;
+}
+
+/**
+ * Convert a scale to the contents of a Scala .scl file.
+ * Intervals that cannot be represented as ratios are converted to cents.
+ * @param scale {@link Scale} instance to be converted.
+ * @param description Description of the scale. Newlines are replaced with spaces.
+ * @param centsFractionDigits Number of digits after the decimal point when formatted as cents.
+ * @param includeNames Write interval names as trailing comments after the pitch values.
+ * @returns The scale formatted as a .scl file.
+ */
+export function reverseParseScalaFile(
+  scale: Scale,
+  description = '',
+  centsFractionDigits = 6,
+  includeNames = false
+) {
+  const intervals = scale.intervals.slice(1);
+  intervals.push(scale.equave);
+  description = description.replace(/\r?\n/g, ' ');
+  if (description.startsWith('!')) {
+    // Prevent the description from being read as a comment
+    description = ' ' + description;
+  }
+  const lines = [description, ` ${intervals.length}`, '!'];
+  intervals.forEach(interval => {
+    const pitch = intervalToScalaPitch(interval, centsFractionDigits);
+    const name = interval.name.replace(/\r?\n/g, ' ').trim();
+    if (includeNames && name.length && name !== pitch) {
+      lines.push(` ${pitch} ${name}`);
+    } else {
+      lines.push(` ${pitch}`);
+    }
+  });
+  return lines.join('\n') + '\n';
+}
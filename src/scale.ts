@@ -1,7 +1,17 @@
-import {ExtendedMonzo} from './monzo';
-import {Interval, type IntervalOptions, type IntervalType} from './interval';
+import {ExtendedMonzo, Val} from './monzo';
+import {Temperament} from './temperament';
+import {
+  Interval,
+  type IntervalJSON,
+  type IntervalOptions,
+  type IntervalType,
+  type VaryOptions,
+} from './interval';
+import {checkSchemaVersion, JSON_SCHEMA_VERSION, seededRandom} from './utils';
 import {
   Fraction,
+  FractionValue,
+  gcd,
   kCombinations,
   mmod,
   PRIMES,
@@ -9,6 +19,330 @@ import {
   valueToCents,
 } from 'xen-dev-utils';
 
+/** Maximum complexities of the degrees of a scale. */
+export type ScaleComplexity = {
+  /** Largest prime in the factorizations of the degrees. */
+  primeLimit: number;
+  /** Largest odd limit of the degrees. */
+  oddLimit: number;
+  /** Largest integer limit of the degrees. */
+  integerLimit: number;
+  /** Largest Tenney height of the degrees. */
+  tenneyHeight: number;
+  /** Largest Benedetti height of the degrees. */
+  benedettiHeight: number;
+  /** Largest Weil height of the degrees. */
+  weilHeight: number;
+  /** Largest Wilson complexity of the degrees. */
+  wilsonComplexity: number;
+};
+
+/** Scale converted to plain data. */
+export type ScaleJSON = {
+  version: number;
+  intervals: IntervalJSON[];
+  equave: IntervalJSON;
+  baseFrequency: number;
+};
+
+/** Distinct sizes of a generic interval i.e. intervals spanning the same number of scale steps. */
+export type IntervalClassSpan = {
+  /** Number of scale steps spanned. */
+  generic: number;
+  /** Distinct specific sizes of the interval class from smallest to largest. */
+  sizes: Interval[];
+};
+
+/** Rothenberg propriety of a scale. */
+export type Propriety = 'strict' | 'proper' | 'improper';
+
+/** Structural properties of a scale. */
+export type ScaleStructure = {
+  /** Steps between consecutive degrees including the step to the equave. */
+  steps: Interval[];
+  /** Distinct step sizes from largest to smallest. */
+  stepClasses: Interval[];
+  /** Step pattern with a letter for each step class e.g. `'LLsLLLs'`. */
+  pattern: string;
+  /** Every generic interval comes in at most two sizes and there are exactly two step sizes. */
+  isMos: boolean;
+  /** Strictly proper if larger generic intervals are always larger in size, proper if they are never smaller. */
+  propriety: Propriety;
+  /** Rothenberg stability i.e. the proportion of all n(n-1) interval occurrences between scale degrees that don't fall within the span of another interval class. */
+  stability: number;
+  /** Every specific interval belongs to a single interval class. */
+  constantStructure: boolean;
+  /** Distinct sizes of each generic interval from one step to one step short of the equave. */
+  spans: IntervalClassSpan[];
+};
+
+/** Rotation of a scale together with its step pattern. */
+export type ScaleMode = {
+  /** The scale rotated to start on a different degree. */
+  scale: Scale;
+  /** Step pattern of the mode e.g. `'LsLLLsL'`. */
+  pattern: string;
+};
+
+/** Pair of identities producing a degree of a tonality diamond. */
+export type IdentityPair = {
+  /** Otonal identity i.e. the numerator before equave reduction. */
+  otonal: number;
+  /** Utonal identity i.e. the denominator before equave reduction. */
+  utonal: number;
+};
+
+/** Tonality diamond together with the identities of its degrees. */
+export type TonalityDiamond = {
+  /** The diamond as a musical scale. */
+  scale: Scale;
+  /** The identity pairs that produced each degree of the scale in the same order as `scale.intervals`. */
+  identities: IdentityPair[][];
+};
+
+/** Chain of generators each narrowed by a fraction of a comma. */
+export type CommaChain = {
+  /** The generating interval such as a fifth. */
+  generator: FractionValue;
+  /** The comma distributed among the links of the chain. */
+  comma: FractionValue;
+  /** Fraction of the comma to narrow each link by. The number of degrees is one more than the number of links. */
+  fractions: FractionValue[];
+  /** Number of links below unison. */
+  down: number;
+  /** Interval of equivalence. */
+  equave: FractionValue;
+};
+
+/** Historical well temperaments and meantones as chains of fifths. Chains run from E♭ to G♯ unless noted otherwise. */
+export const WELL_TEMPERAMENTS: Record<string, CommaChain> = {
+  'Quarter-comma meantone': {
+    generator: '3/2',
+    comma: '81/80',
+    fractions: Array(11).fill('1/4'),
+    down: 3,
+    equave: 2,
+  },
+  'Werckmeister III': {
+    generator: '3/2',
+    comma: '531441/524288',
+    fractions: [0, 0, 0, '1/4', '1/4', '1/4', 0, 0, '1/4', 0, 0],
+    down: 3,
+    equave: 2,
+  },
+  // Chain from D♭ to F♯ so that the remaining schisma falls on the fifth F♯-D♭ closing the circle
+  'Kirnberger III': {
+    generator: '3/2',
+    comma: '81/80',
+    fractions: [0, 0, 0, 0, 0, '1/4', '1/4', '1/4', '1/4', 0, 0],
+    down: 5,
+    equave: 2,
+  },
+  Vallotti: {
+    generator: '3/2',
+    comma: '531441/524288',
+    fractions: [0, 0, '1/6', '1/6', '1/6', '1/6', '1/6', '1/6', 0, 0, 0],
+    down: 3,
+    equave: 2,
+  },
+  'Young II': {
+    generator: '3/2',
+    comma: '531441/524288',
+    fractions: [0, 0, 0, '1/6', '1/6', '1/6', '1/6', '1/6', '1/6', 0, 0],
+    down: 3,
+    equave: 2,
+  },
+};
+
+/**
+ * Obtain letters for naming step classes.
+ * @param numClasses Number of distinct step sizes.
+ * @returns Letters for the step classes from largest to smallest.
+ */
+function stepLetters(numClasses: number) {
+  if (numClasses === 1) {
+    return ['L'];
+  }
+  if (numClasses === 2) {
+    return ['L', 's'];
+  }
+  if (numClasses === 3) {
+    return ['L', 'M', 's'];
+  }
+  return [...Array(numClasses).keys()].map(i => String.fromCharCode(97 + i));
+}
+
+/**
+ * Compare the sizes of two intervals.
+ * @param a First interval.
+ * @param b Second interval.
+ * @param tolerance Largest difference in cents considered equal. Compared using exact equality if not given.
+ * @returns `0` if the intervals are of equal size, a negative number if `a` is smaller and a positive number if `a` is larger.
+ */
+function compareSizes(a: Interval, b: Interval, tolerance?: number) {
+  if (tolerance === undefined) {
+    return a.equals(b) ? 0 : a.compare(b);
+  }
+  const difference = a.totalCents() - b.totalCents();
+  return Math.abs(difference) <= tolerance ? 0 : difference;
+}
+
+/**
+ * Check if an interval falls within the span of an interval class (inclusive).
+ * @param interval Interval to check.
+ * @param span Distinct sizes of the interval class.
+ * @param tolerance Largest difference in cents considered equal.
+ * @returns `true` if the interval is between the smallest and the largest size of the span.
+ */
+function isWithinSpan(
+  interval: Interval,
+  span: IntervalClassSpan,
+  tolerance?: number
+) {
+  const smallest = span.sizes[0];
+  const largest = span.sizes[span.sizes.length - 1];
+  return (
+    compareSizes(interval, smallest, tolerance) >= 0 &&
+    compareSizes(interval, largest, tolerance) <= 0
+  );
+}
+
+/**
+ * Ratio of the large step to the small step of a moment-of-symmetry scale.
+ * Exact ratios can be given as a fraction, a string like `'3:2'` or a pair of step counts in the implied equal temperament.
+ * Non-integral numbers are treated as approximate ratios and produce a scale in cents.
+ */
+export type MosHardness = number | string | Fraction | [number, number];
+
+/**
+ * Parse a moment-of-symmetry step signature.
+ * @param signature Step signature like `'5L 2s'`.
+ * @returns Pair of the number of large and small steps.
+ * @throws An error if the signature is malformed.
+ */
+function parseStepSignature(signature: string): [number, number] {
+  const match = signature.match(/^\s*(\d+)\s*L\s*(\d+)\s*s\s*$/);
+  if (match === null) {
+    throw new Error(`Invalid step signature '${signature}'`);
+  }
+  const numLarge = parseInt(match[1]);
+  const numSmall = parseInt(match[2]);
+  if (!numLarge || !numSmall) {
+    throw new Error('Step signature must have both large and small steps');
+  }
+  return [numLarge, numSmall];
+}
+
+/**
+ * Resolve the hardness of a moment-of-symmetry scale to step counts.
+ * @param hardness Ratio of the large step to the small step.
+ * @returns Pair of integer step counts or `undefined` if the hardness is not an exact ratio.
+ * @throws An error if the ratio is not valid or would collapse the small step to nothing.
+ */
+function resolveHardness(hardness: MosHardness): [number, number] | undefined {
+  let steps: [number, number];
+  if (Array.isArray(hardness)) {
+    steps = hardness;
+  } else if (typeof hardness === 'string' && hardness.includes(':')) {
+    const [large, small] = hardness.split(':');
+    steps = [parseInt(large), parseInt(small)];
+  } else if (typeof hardness === 'number' && !Number.isInteger(hardness)) {
+    if (!(hardness >= 1) || !isFinite(hardness)) {
+      throw new Error('Hardness must be finite and at least 1');
+    }
+    return undefined;
+  } else {
+    const ratio = new Fraction(hardness);
+    steps = [ratio.s * ratio.n, ratio.d];
+  }
+  const [large, small] = steps;
+  if (!Number.isInteger(large) || !Number.isInteger(small)) {
+    throw new Error('Step counts must be integers');
+  }
+  if (small <= 0) {
+    throw new Error('Small step must be positive');
+  }
+  if (large < small) {
+    throw new Error('Large step must be at least as large as the small step');
+  }
+  return steps;
+}
+
+/**
+ * Remove intervals of equal size keeping the first occurrence.
+ * @param intervals Intervals to deduplicate.
+ * @param tolerance Largest difference in cents considered equal. Exact intervals are compared exactly if not given.
+ * @returns Array of intervals with unique sizes.
+ */
+function uniqueIntervals(intervals: Iterable<Interval>, tolerance?: number) {
+  if (tolerance !== undefined) {
+    const unique: Interval[] = [];
+    for (const interval of intervals) {
+      if (!unique.some(other => !compareSizes(other, interval, tolerance))) {
+        unique.push(interval);
+      }
+    }
+    return unique;
+  }
+  // Exact intervals are matched by their canonical form
+  const exactKeys = new Set<string>();
+  // Intervals with cents offsets may equal anything in the neighbouring size buckets
+  const buckets = new Map<number, Interval[]>();
+  const result: Interval[] = [];
+  for (const interval of intervals) {
+    const index = interval.monzo.sizeBucket();
+    const exact = !interval.monzo.cents;
+    const key = interval.hashKey();
+    if (exact && exactKeys.has(key)) {
+      continue;
+    }
+    const isDuplicate = [index - 1, index, index + 1].some(neighbour =>
+      (buckets.get(neighbour) ?? []).some(
+        other => (!exact || other.monzo.cents) && other.equals(interval)
+      )
+    );
+    if (isDuplicate) {
+      continue;
+    }
+    if (exact) {
+      exactKeys.add(key);
+    }
+    const bucket = buckets.get(index);
+    if (bucket === undefined) {
+      buckets.set(index, [interval]);
+    } else {
+      bucket.push(interval);
+    }
+    result.push(interval);
+  }
+  return result;
+}
+
+/**
+ * Prepare an equave for equal division.
+ * @param equave Interval to equally divide.
+ * @param divisions Number of divisions of the equave.
+ * @returns The equave formatted as equal temperament with options that make its divisions print as k-of-N. Equal temperament equaves are expressed as divisions of their own equave.
+ */
+function equalDivisionEquave(equave: Interval, divisions: number) {
+  const options: IntervalOptions = {preferredEtDenominator: divisions};
+  if (equave.monzo.isFractional()) {
+    options.preferredEtEquave = equave.monzo.toFraction();
+  } else if (equave.monzo.isEqualTemperament()) {
+    const [fractionOfEquave, etEquave] = equave.monzo.toEqualTemperament();
+    options.preferredEtDenominator = divisions * fractionOfEquave.d;
+    options.preferredEtEquave = etEquave;
+  } else {
+    options.preferredEtEquaveCents = equave.totalCents();
+  }
+  const result = equave.mergeOptions(options);
+  if (options.preferredEtEquaveCents === undefined) {
+    delete result.options.preferredEtEquaveCents;
+  }
+  result.type = 'equal temperament';
+  return result;
+}
+
 /** Musical scale consisting of Interval instances repeated at octaves or generic equaves. */
 export class Scale {
   intervals: Interval[];
@@ -27,6 +361,21 @@ export class Scale {
     this.baseFrequency = baseFrequency;
   }
 
+  /**
+   * Revive a musical scale from plain data.
+   * @param data Output of {@link Scale.toJSON}.
+   * @returns A new musical scale equal to the serialized one including interval types, names and formatting options.
+   * @throws An error if the schema version is not supported.
+   */
+  static fromJSON(data: ScaleJSON) {
+    checkSchemaVersion(data.version);
+    return new Scale(
+      data.intervals.map(interval => Interval.fromJSON(interval)),
+      Interval.fromJSON(data.equave),
+      data.baseFrequency
+    );
+  }
+
   /**
    * Construct a new musical scale from an array of intervals.
    * @param intervals Intervals of the scale including the interval of equivalence, but not 1/1.
@@ -95,7 +444,7 @@ export class Scale {
    * @param equaveCents Size of the equave to divide in cents.
    * @param numberOfComponents Number of components in monzo vector parts.
    * @param baseFrequency Base frequency of unison.
-   * @returns A new musical scale that equally divides the given equave.
+   * @returns A new musical scale that equally divides the given equave. Formatted as `k\N<equaveCents>` if the number of divisions is an integer and as cents otherwise.
    */
   static fromFractionalTemperament(
     divisions: number,
@@ -103,6 +452,13 @@ export class Scale {
     numberOfComponents: number,
     baseFrequency = 440
   ) {
+    let type: IntervalType = 'cents';
+    const options: IntervalOptions = {};
+    if (Number.isInteger(divisions)) {
+      type = 'equal temperament';
+      options.preferredEtDenominator = divisions;
+      options.preferredEtEquaveCents = equaveCents;
+    }
     const intervals: Interval[] = [];
     for (let i = 0; i <= divisions; ++i) {
       intervals.push(
@@ -111,7 +467,9 @@ export class Scale {
             (equaveCents * i) / divisions,
             numberOfComponents
           ),
-          'cents'
+          type,
+          undefined,
+          options
         )
       );
     }
@@ -182,6 +540,195 @@ export class Scale {
     return result.repeat(numPeriods);
   }
 
+  /**
+   * Construct a new musical scale by stacking generators narrowed by fractions of a comma.
+   * @param generator The generating interval such as a fifth.
+   * @param comma The comma to distribute among the links of the chain such as the Pythagorean or the syntonic comma.
+   * @param fractions Fraction of the comma to narrow each link by. Negative fractions widen the link.
+   * @param down Number of links below unison.
+   * @param equave The interval of equivalence.
+   * @param baseFrequency Base frequency of unison.
+   * @returns A new musical scale with exact fractional exponents in the monzo vector parts. Degrees that remain rational are formatted as ratios.
+   * @throws An error if `down` is outside of the chain.
+   */
+  static fromCommaChain(
+    generator: Interval,
+    comma: Interval,
+    fractions: FractionValue[],
+    down: number,
+    equave: Interval,
+    baseFrequency = 440
+  ) {
+    if (down < 0 || down > fractions.length) {
+      throw new Error('Down must be between zero and the number of links');
+    }
+    const chain = [generator.monzo.mul(0)];
+    fractions.forEach(fraction => {
+      const link = generator.monzo.sub(comma.monzo.mul(new Fraction(fraction)));
+      chain.push(chain[chain.length - 1].add(link));
+    });
+    const root = chain[down];
+    const monzos = chain.map(monzo => monzo.sub(root).mmod(equave.monzo));
+    monzos.sort((a, b) => a.compare(b));
+    return new Scale(
+      monzos.map(
+        monzo => new Interval(monzo, monzo.isFractional() ? 'ratio' : 'monzo')
+      ),
+      equave,
+      baseFrequency
+    );
+  }
+
+  /**
+   * Construct a new well temperament from a historical preset.
+   * @param name Name of the temperament in {@link WELL_TEMPERAMENTS} such as `'Werckmeister III'`.
+   * @param numberOfComponents Number of components in monzo vector parts.
+   * @param baseFrequency Base frequency of unison.
+   * @returns A new musical scale with the comma distributed according to the preset.
+   * @throws An error if the preset doesn't exist.
+   */
+  static fromWellTemperament(
+    name: string,
+    numberOfComponents: number,
+    baseFrequency = 440
+  ) {
+    if (!Object.prototype.hasOwnProperty.call(WELL_TEMPERAMENTS, name)) {
+      throw new Error(`Unknown well temperament '${name}'`);
+    }
+    const preset = WELL_TEMPERAMENTS[name];
+    const ratio = (value: FractionValue) =>
+      new Interval(
+        ExtendedMonzo.fromFraction(value, numberOfComponents),
+        'ratio'
+      );
+    return Scale.fromCommaChain(
+      ratio(preset.generator),
+      ratio(preset.comma),
+      preset.fractions,
+      preset.down,
+      ratio(preset.equave),
+      baseFrequency
+    );
+  }
+
+  /**
+   * Construct a new moment-of-symmetry scale from a step signature.
+   * @param signature Step signature like `'5L 2s'`.
+   * @param hardness Ratio of the large step to the small step. Exact ratios produce intervals formatted in equal temperament.
+   * @param mode Mode in UDP notation like `'5|1'` or `'4|4(2)'` giving the number of generators stacked up and down. Defaults to the brightest mode.
+   * @param equave Equave of the scale.
+   * @param numberOfComponents Number of components in monzo vector parts.
+   * @param baseFrequency Base frequency of unison.
+   * @returns A new musical scale with the given pattern of large and small steps.
+   * @throws An error if the signature, hardness or mode is invalid.
+   */
+  static fromMos(
+    signature: string,
+    hardness: MosHardness,
+    mode: string | undefined,
+    equave: Fraction,
+    numberOfComponents: number,
+    baseFrequency = 440
+  ) {
+    const [numLarge, numSmall] = parseStepSignature(signature);
+    const numPeriods = gcd(numLarge, numSmall);
+    const periodSize = (numLarge + numSmall) / numPeriods;
+    const periodLarge = numLarge / numPeriods;
+
+    let up = periodSize - 1;
+    if (mode !== undefined) {
+      const match = mode.match(/^\s*(\d+)\s*\|\s*(\d+)\s*(?:\((\d+)\))?\s*$/);
+      if (match === null) {
+        throw new Error(`Invalid UDP notation '${mode}'`);
+      }
+      const modeUp = parseInt(match[1]);
+      const modeDown = parseInt(match[2]);
+      if (match[3] !== undefined && parseInt(match[3]) !== numPeriods) {
+        throw new Error(
+          `Step signature ${signature} has ${numPeriods} periods`
+        );
+      }
+      if (
+        modeUp + modeDown !== numLarge + numSmall - numPeriods ||
+        modeUp % numPeriods
+      ) {
+        throw new Error(`Invalid mode ${mode} for ${signature}`);
+      }
+      up = modeUp / numPeriods;
+    }
+
+    // Modes of a MOS sorted lexicographically are also sorted by brightness
+    const word: boolean[] = [];
+    for (let i = 0; i < periodSize; ++i) {
+      word.push(
+        Math.floor(((i + 1) * periodLarge) / periodSize) -
+          Math.floor((i * periodLarge) / periodSize) ===
+          1
+      );
+    }
+    const rotations: string[] = [];
+    for (let i = 0; i < periodSize; ++i) {
+      const rotation = word.slice(i).concat(word.slice(0, i));
+      rotations.push(rotation.map(large => (large ? '1' : '0')).join(''));
+    }
+    rotations.sort().reverse();
+    const steps = rotations[periodSize - 1 - up].repeat(numPeriods);
+
+    const stepCounts = resolveHardness(hardness);
+    const intervals: Interval[] = [];
+    if (stepCounts === undefined) {
+      const equaveCents = valueToCents(equave.valueOf());
+      const divisions = numLarge * (hardness as number) + numSmall;
+      let total = 0;
+      for (let i = 0; i < steps.length; ++i) {
+        intervals.push(
+          new Interval(
+            ExtendedMonzo.fromCents(
+              (equaveCents * total) / divisions,
+              numberOfComponents
+            ),
+            'cents'
+          )
+        );
+        total += steps[i] === '1' ? (hardness as number) : 1;
+      }
+      const equaveInterval = new Interval(
+        ExtendedMonzo.fromFraction(equave, numberOfComponents),
+        'ratio'
+      );
+      return new Scale(intervals, equaveInterval, baseFrequency);
+    }
+    const [large, small] = stepCounts;
+    const divisions = numLarge * large + numSmall * small;
+    const options: IntervalOptions = {
+      preferredEtDenominator: divisions,
+      preferredEtEquave: equave,
+    };
+    let total = 0;
+    for (let i = 0; i < steps.length; ++i) {
+      intervals.push(
+        new Interval(
+          ExtendedMonzo.fromEqualTemperament(
+            new Fraction(total, divisions),
+            equave,
+            numberOfComponents
+          ),
+          'equal temperament',
+          undefined,
+          options
+        )
+      );
+      total += steps[i] === '1' ? large : small;
+    }
+    const equaveInterval = new Interval(
+      ExtendedMonzo.fromFraction(equave, numberOfComponents),
+      'equal temperament',
+      undefined,
+      options
+    );
+    return new Scale(intervals, equaveInterval, baseFrequency);
+  }
+
   /**
    * Construct a new musical scale from a slice of the harmonic series.
    * @param denominator Denominator of every interval in the scale.
@@ -286,7 +833,7 @@ export class Scale {
 
   /**
    * Construct a musical scale from a combination product set.
-   * @param factors Factors in the original set.
+   * @param factors Factors in the original set. Sets are deduplicated by interval size.
    * @param numElements Number of elements to multiply together in frequency-space in each combination.
    * @param addUnity Add 1/1 into the scale along with the combinations. If `false` the scale will be transposed to include a combination at unison.
    * @param equave Interval of equivalence.
@@ -301,7 +848,7 @@ export class Scale {
     baseFrequency = 440
   ) {
     if (factors instanceof Set) {
-      factors = [...factors.values()];
+      factors = uniqueIntervals(factors);
     }
     if (numElements > factors.length) {
       throw new Error(
@@ -368,7 +915,7 @@ export class Scale {
 
   /**
    * Construct a new musical scale from an array of intervals and their inverses.
-   * @param basis Basis intervals of the cross polytope.
+   * @param basis Basis intervals of the cross polytope. Sets are deduplicated by interval size.
    * @param addUnity Include the center of the polytope.
    * @param equave Interval of equivalence.
    * @param baseFrequency Base frequency of 1/1 or the least of interval of the polytope before reduction by the equave.
@@ -381,7 +928,7 @@ export class Scale {
     baseFrequency = 440
   ) {
     if (basis instanceof Set) {
-      basis = [...basis.values()];
+      basis = uniqueIntervals(basis);
     }
     let intervals: Interval[] = [];
     basis.forEach(basisInterval => {
@@ -482,40 +1029,130 @@ export class Scale {
     );
   }
 
+  /**
+   * Construct a new tonality diamond.
+   * @param identities Positive integers acting as both otonal and utonal identities e.g. `[1, 3, 5, 7, 9, 11]`.
+   * @param equave Interval of equivalence. Anything other than `2` results in a generalized diamond.
+   * @param numberOfComponents Number of components in monzo vector parts.
+   * @param baseFrequency Base frequency of 1/1.
+   * @returns A new musical scale consisting of every `otonal / utonal` combination of the identities reduced by the equave together with the identity pairs that produced each degree.
+   * @throws An error if the identities are not positive integers.
+   */
+  static fromTonalityDiamond(
+    identities: number[],
+    equave: number,
+    numberOfComponents: number,
+    baseFrequency = 440
+  ): TonalityDiamond {
+    if (
+      !identities.every(identity => Number.isInteger(identity) && identity > 0)
+    ) {
+      throw new Error('Identities must be positive integers');
+    }
+    const uniqueIdentities = [...new Set(identities)];
+    const equaveMonzo = ExtendedMonzo.fromFraction(equave, numberOfComponents);
+    const degrees: {monzo: ExtendedMonzo; pairs: IdentityPair[]}[] = [];
+    for (const utonal of uniqueIdentities) {
+      for (const otonal of uniqueIdentities) {
+        const monzo = ExtendedMonzo.fromFraction(
+          new Fraction(otonal, utonal),
+          numberOfComponents
+        ).mmod(equaveMonzo);
+        const pair = {otonal, utonal};
+        const existing = degrees.find(degree => degree.monzo.equals(monzo));
+        if (existing === undefined) {
+          degrees.push({monzo, pairs: [pair]});
+        } else {
+          existing.pairs.push(pair);
+        }
+      }
+    }
+    degrees.sort((a, b) => a.monzo.compare(b.monzo));
+    const scale = new Scale(
+      degrees.map(degree => new Interval(degree.monzo, 'ratio')),
+      new Interval(equaveMonzo, 'ratio'),
+      baseFrequency
+    );
+    return {scale, identities: degrees.map(degree => degree.pairs)};
+  }
+
   /**
    * Construct a new Dwarf scale.
-   * @param val Patent val.
+   * @param val Number of divisions of the patent val or an explicit {@link Val} instance. Harmonics outside of the prime limit of an explicit val are skipped.
    * @param equave Interval of equivalence. Anything other than `2` results in a generalized scale.
    * @param numberOfComponents Number of components in monzo vector parts.
    * @param baseFrequency Base frequency of 1/1.
    * @returns A new Dwarf scale.
+   * @throws An error if an explicit val doesn't map the equave to a positive integer or cannot reach every degree.
    */
   static fromDwarf(
-    val: number,
+    val: number | Val,
     equave: number,
     numberOfComponents: number,
     baseFrequency = 440
   ) {
-    const valPerEquaveCents = val / valueToCents(equave);
+    let divisions: number;
+    let mapHarmonic: (n: number) => number | null;
+    if (val instanceof Val) {
+      const explicitVal = val;
+      const steps = explicitVal.map(
+        ExtendedMonzo.fromFraction(equave, explicitVal.numberOfComponents)
+      );
+      if (steps.d !== 1 || steps.compare(0) <= 0) {
+        throw new Error('Val must map the equave to a positive integer');
+      }
+      divisions = steps.valueOf();
+      let generator = divisions;
+      explicitVal.vector.forEach(component => {
+        if (component.d !== 1) {
+          throw new Error('Val must have integer components');
+        }
+        generator = gcd(generator, Math.abs(component.n));
+      });
+      if (generator !== 1) {
+        throw new Error('Val cannot reach every degree');
+      }
+      mapHarmonic = n => {
+        try {
+          return explicitVal
+            .map(ExtendedMonzo.fromFraction(n, explicitVal.numberOfComponents))
+            .valueOf();
+        } catch {
+          return null;
+        }
+      };
+    } else {
+      divisions = val;
+      const valPerEquaveCents = val / valueToCents(equave);
+      mapHarmonic = n => {
+        let degree = 0;
+        let m = n;
+        let i = 0;
+        while (m > 1) {
+          let component = 0;
+          while (m % PRIMES[i] === 0) {
+            m /= PRIMES[i];
+            component++;
+          }
+          if (component !== 0) {
+            degree +=
+              component * Math.round(PRIME_CENTS[i] * valPerEquaveCents);
+          }
+          i++;
+        }
+        return degree;
+      };
+    }
     const degrees = new Set();
     const members: number[] = [];
     let n = 1;
-    while (members.length < val) {
-      let degree = 0;
-      let m = n;
-      let i = 0;
-      while (m > 1) {
-        let component = 0;
-        while (m % PRIMES[i] === 0) {
-          m /= PRIMES[i];
-          component++;
-        }
-        if (component !== 0) {
-          degree += component * Math.round(PRIME_CENTS[i] * valPerEquaveCents);
-        }
-        i++;
+    while (members.length < divisions) {
+      let degree = mapHarmonic(n);
+      if (degree === null) {
+        n++;
+        continue;
       }
-      degree = degree % val;
+      degree = mmod(degree, divisions);
       if (!degrees.has(degree)) {
         degrees.add(degree);
         members.push(n);
@@ -534,6 +1171,29 @@ export class Scale {
     );
   }
 
+  /**
+   * Construct a new musical scale that equally divides an arbitrary interval in pitch-space.
+   * @param divisions Number of notes per equave.
+   * @param equave Interval to equally divide such as a just intonation interval with a residual, a cents value or another equal temperament interval.
+   * @param baseFrequency Base frequency of unison.
+   * @returns A new musical scale consisting of `1\N<equave>`, `2\N<equave>`, ..., `N\N<equave>`.
+   * @throws An error if `divisions` is not a positive integer.
+   */
+  static fromEqualDivision(
+    divisions: number,
+    equave: Interval,
+    baseFrequency = 440
+  ) {
+    if (!Number.isInteger(divisions) || divisions < 1) {
+      throw new Error('Number of notes per equave must be a positive integer');
+    }
+    const steps: number[] = [];
+    for (let i = 1; i <= divisions; ++i) {
+      steps.push(i);
+    }
+    return Scale.fromEqualTemperamentSubset(steps, equave, baseFrequency);
+  }
+
   /**
    * Construct a new musical scale from a subset of an equal temperament.
    * @param steps Intervals to include in the scale. The last step determines the EDO / ED of EDJI.
@@ -547,11 +1207,7 @@ export class Scale {
     baseFrequency = 440
   ) {
     const equaveSteps = steps[steps.length - 1];
-    equave = equave.mergeOptions({preferredEtDenominator: equaveSteps});
-    if (equave.monzo.isFractional()) {
-      equave.options.preferredEtEquave = equave.monzo.toFraction();
-      equave.type = 'equal temperament';
-    }
+    equave = equalDivisionEquave(equave, equaveSteps);
 
     return Scale.fromIntervalArray(
       steps.map(step => equave.mul(new Fraction(step, equaveSteps))),
@@ -668,6 +1324,142 @@ export class Scale {
     return this.intervals[index].name;
   }
 
+  /**
+   * Summarize the complexity of the scale.
+   * @returns The maximum of each complexity measure over the intervals of the scale including the equave.
+   * @throws An error if any of the intervals is not rational.
+   */
+  getComplexity(): ScaleComplexity {
+    const result: ScaleComplexity = {
+      primeLimit: 1,
+      oddLimit: 1,
+      integerLimit: 1,
+      tenneyHeight: 0,
+      benedettiHeight: 1,
+      weilHeight: 0,
+      wilsonComplexity: 0,
+    };
+    [...this.intervals, this.equave].forEach(interval => {
+      result.primeLimit = Math.max(result.primeLimit, interval.primeLimit());
+      result.oddLimit = Math.max(result.oddLimit, interval.oddLimit());
+      result.integerLimit = Math.max(
+        result.integerLimit,
+        interval.integerLimit()
+      );
+      result.tenneyHeight = Math.max(
+        result.tenneyHeight,
+        interval.tenneyHeight()
+      );
+      result.benedettiHeight = Math.max(
+        result.benedettiHeight,
+        interval.benedettiHeight()
+      );
+      result.weilHeight = Math.max(result.weilHeight, interval.weilHeight());
+      result.wilsonComplexity = Math.max(
+        result.wilsonComplexity,
+        interval.wilsonComplexity()
+      );
+    });
+    return result;
+  }
+
+  /**
+   * Analyze the step structure of the scale.
+   * Exact intervals are compared exactly and intervals with cents offsets up to a small tolerance.
+   * @param tolerance Largest difference in cents between intervals considered equal in size. Overrides the default comparison if given.
+   * @returns Step sizes and pattern together with the MOS property, propriety, stability, constant structure and interval class spans.
+   * @throws An error if the degrees of the scale are not in ascending order within the equave.
+   */
+  analyze(tolerance?: number): ScaleStructure {
+    const degrees: Interval[] = [];
+    for (let i = 0; i < 2 * this.size; ++i) {
+      degrees.push(this.getInterval(i));
+    }
+    const steps: Interval[] = [];
+    for (let i = 0; i < this.size; ++i) {
+      const step = degrees[i + 1].sub(degrees[i]);
+      if (step.totalCents() <= 0) {
+        throw new Error('Scale degrees must be in ascending order');
+      }
+      steps.push(step);
+    }
+
+    const stepClasses = uniqueIntervals(steps, tolerance).sort((a, b) =>
+      b.compare(a)
+    );
+    const letters = stepLetters(stepClasses.length);
+    const pattern = steps
+      .map(
+        step =>
+          letters[stepClasses.findIndex(c => !compareSizes(c, step, tolerance))]
+      )
+      .join('');
+
+    // Every specific interval of each generic interval class
+    const classes: Interval[][] = [];
+    const spans: IntervalClassSpan[] = [];
+    for (let generic = 1; generic < this.size; ++generic) {
+      const intervals: Interval[] = [];
+      for (let i = 0; i < this.size; ++i) {
+        intervals.push(degrees[i + generic].sub(degrees[i]));
+      }
+      const sizes = uniqueIntervals(intervals, tolerance).sort((a, b) =>
+        a.compare(b)
+      );
+      classes.push(intervals);
+      spans.push({generic, sizes});
+    }
+
+    let propriety: Propriety = 'strict';
+    for (let i = 1; i < spans.length; ++i) {
+      const largest = spans[i - 1].sizes[spans[i - 1].sizes.length - 1];
+      const smallest = spans[i].sizes[0];
+      const comparison = compareSizes(largest, smallest, tolerance);
+      if (!comparison) {
+        propriety = 'proper';
+      } else if (comparison > 0) {
+        propriety = 'improper';
+        break;
+      }
+    }
+
+    let total = 0;
+    let ambiguous = 0;
+    classes.forEach((intervals, i) => {
+      const others = spans.filter(other => other !== spans[i]);
+      intervals.forEach(interval => {
+        total++;
+        if (others.some(other => isWithinSpan(interval, other, tolerance))) {
+          ambiguous++;
+        }
+      });
+    });
+
+    const constantStructure = spans.every(span =>
+      span.sizes.every(size =>
+        spans.every(
+          other =>
+            other === span ||
+            other.sizes.every(otherSize =>
+              compareSizes(otherSize, size, tolerance)
+            )
+        )
+      )
+    );
+
+    return {
+      steps,
+      stepClasses,
+      pattern,
+      isMos:
+        stepClasses.length === 2 && spans.every(span => span.sizes.length <= 2),
+      propriety,
+      stability: total ? 1 - ambiguous / total : 1,
+      constantStructure,
+      spans,
+    };
+  }
+
   /**
    * Sort the scale in-place.
    * @param preserveUnity Keep the first entry in place and verify that it's 0 cents.
@@ -816,6 +1608,51 @@ export class Scale {
     return this.variant(intervals);
   }
 
+  /**
+   * Calculate the intervals from every degree to the degrees above it within one equave.
+   * Formatting types are preserved in the same way as in {@link Scale.rotate}.
+   * @returns A row for each degree starting with unison and ending with the equave. Row `i` contains the intervals of the mode starting on degree `i`.
+   */
+  intervalMatrix() {
+    const result: Interval[][] = [[...this.intervals, this.equave]];
+    for (let i = 1; i < this.size; ++i) {
+      const root = this.intervals[i];
+      const row: Interval[] = [];
+      for (let j = i; j <= this.size + i; ++j) {
+        if (j >= this.size) {
+          row.push(this.intervals[j - this.size].sub(root).add(this.equave));
+        } else {
+          row.push(this.intervals[j].sub(root));
+        }
+      }
+      result.push(row);
+    }
+    return result;
+  }
+
+  /**
+   * Calculate the sizes of the intervals from every degree to the degrees above it within one equave.
+   * @returns The interval matrix measured in cents.
+   */
+  centsMatrix() {
+    return this.intervalMatrix().map(row =>
+      row.map(interval => interval.totalCents())
+    );
+  }
+
+  /**
+   * Obtain every rotation of the scale.
+   * @returns An array of modes starting on each degree of the scale together with their step patterns.
+   * @throws An error if the degrees of the scale are not in ascending order within the equave.
+   */
+  modes(): ScaleMode[] {
+    const pattern = this.analyze().pattern;
+    return this.intervalMatrix().map((row, i) => ({
+      scale: this.variant(row.slice(0, this.size)),
+      pattern: pattern.slice(i) + pattern.slice(0, i),
+    }));
+  }
+
   /**
    * Obtain a subset of the scale.
    * @param indices Indices of the intervals to include.
@@ -875,17 +1712,28 @@ export class Scale {
 
   /**
    * Add random variation to the intervals in the scale.
-   * @param maxCents Maximum deviation in cents.
+   * @param amount Maximum deviation in cents (or Hz in frequency-space). Standard deviation for the gaussian distribution.
    * @param varyEquave Apply variation the the interval of equivalence.
+   * @param options Distribution, source of randomness and measurement space of the deviation. Frequency-space deviation is relative to the base frequency of the scale.
    * @returns A new scale with variance added.
    */
-  vary(maxCents: number, varyEquave = false) {
+  vary(amount: number, varyEquave = false, options: VaryOptions = {}) {
+    let random = options.random;
+    if (random === undefined) {
+      random =
+        options.seed === undefined ? Math.random : seededRandom(options.seed);
+    }
+    const varyOptions = {
+      ...options,
+      random,
+      baseFrequency: this.baseFrequency,
+    };
     const intervals = this.intervals.map((interval, i) =>
-      i ? interval.vary(maxCents) : interval.clone()
+      i ? interval.vary(amount, varyOptions) : interval.clone()
     );
     const result = this.variant(intervals);
     if (varyEquave) {
-      result.equave = this.equave.vary(maxCents);
+      result.equave = this.equave.vary(amount, varyOptions);
     }
     return result;
   }
@@ -926,14 +1774,24 @@ export class Scale {
   /**
    * Create a new scale by concatenating this one with another.
    * Duplicates unison and other scale degrees if present.
+   * Monzos are resized to the larger number of components if the scales differ.
    * @param other Another scale with the same equave and base frequency.
    * @param deep Create new copies of the Interval instances.
    * @returns A new scale that includes all the intervals from both scales.
    */
-  concat(other: Scale, deep = false) {
+  concat(other: Scale, deep = false): Scale {
     if (this.baseFrequency !== other.baseFrequency) {
       throw new Error('Base frequencies must match when concatenating');
     }
+    if (this.numberOfComponents !== other.numberOfComponents) {
+      const numberOfComponents = Math.max(
+        this.numberOfComponents,
+        other.numberOfComponents
+      );
+      return this.withComponents(numberOfComponents).concat(
+        other.withComponents(numberOfComponents)
+      );
+    }
     if (!this.equave.strictEquals(other.equave)) {
       throw new Error('Equaves must match when concatenating');
     }
@@ -953,17 +1811,8 @@ export class Scale {
    * @returns This scale.
    */
   removeDuplicatesInPlace() {
-    let i = 1;
-    while (i < this.intervals.length) {
-      for (let j = 0; j < i; ++j) {
-        if (this.intervals[i].equals(this.intervals[j])) {
-          this.intervals.splice(i, 1);
-          i--;
-          break;
-        }
-      }
-      i++;
-    }
+    const intervals = uniqueIntervals(this.intervals);
+    this.intervals.splice(0, this.intervals.length, ...intervals);
     return this;
   }
 
@@ -1044,6 +1893,51 @@ export class Scale {
     return new Scale(intervals, equave, this.baseFrequency);
   }
 
+  /**
+   * Create a new scale where every interval is tempered by a regular temperament.
+   * Unlike {@link Scale.approximateEqualTemperament} the result is consistent: chords spanning multiple degrees are tempered the same way as their constituent intervals.
+   * @param temperament Temperament to use or an array of commas to temper out.
+   * @param tuning Just intonation intervals to keep pure. Defaults to the equave. Completed with primes in increasing order if fewer than the rank of the temperament are given.
+   * @returns A new scale of tempered intervals. Formatted as equal temperament if the temperament has rank one.
+   * @throws An error if the intervals of the scale are not just intonation within the prime limit of the temperament.
+   */
+  temper(
+    temperament: Temperament | (Interval | ExtendedMonzo)[],
+    tuning?: (Interval | ExtendedMonzo)[]
+  ) {
+    const toMonzo = (interval: Interval | ExtendedMonzo) =>
+      interval instanceof Interval ? interval.monzo : interval;
+    if (!(temperament instanceof Temperament)) {
+      temperament = Temperament.fromCommas(temperament.map(toMonzo));
+    }
+    const generators = temperament.getGenerators(
+      (tuning ?? [this.equave]).map(toMonzo)
+    );
+    let type: IntervalType = 'monzo';
+    const options: IntervalOptions = {};
+    if (temperament.rank === 1) {
+      type = 'equal temperament';
+      options.preferredEtDenominator = temperament.mapping[0]
+        .map(this.equave.monzo)
+        .valueOf();
+      if (this.equave.monzo.isFractional()) {
+        options.preferredEtEquave = this.equave.monzo.toFraction();
+      }
+    }
+    const temper = (interval: Interval) =>
+      new Interval(
+        temperament.temper(interval.monzo, generators),
+        type,
+        undefined,
+        {...interval.options, ...options}
+      );
+    return new Scale(
+      this.intervals.map(temper),
+      temper(this.equave),
+      this.baseFrequency
+    );
+  }
+
   /**
    * Create a new scale where every interval is replace with the closest approximation in a harmonic series.
    * @param denominator Denominator/root of the harmonic series slice.
@@ -1097,6 +1991,32 @@ export class Scale {
     return new Scale(intervals, equave, this.baseFrequency);
   }
 
+  /**
+   * Convert the intervals in the scale to a different number of components in the monzo vector part.
+   * @param numberOfComponents Number of components in monzo vector parts.
+   * @returns A new scale of intervals with resized monzos.
+   */
+  withComponents(numberOfComponents: number) {
+    const intervals = this.intervals.map(interval =>
+      interval.withComponents(numberOfComponents)
+    );
+    const equave = this.equave.withComponents(numberOfComponents);
+    return new Scale(intervals, equave, this.baseFrequency);
+  }
+
+  /**
+   * Convert the scale to plain data suitable for `JSON.stringify` or `structuredClone`.
+   * @returns Serialized scale.
+   */
+  toJSON(): ScaleJSON {
+    return {
+      version: JSON_SCHEMA_VERSION,
+      intervals: this.intervals.map(interval => interval.toJSON()),
+      equave: this.equave.toJSON(),
+      baseFrequency: this.baseFrequency,
+    };
+  }
+
   /**
    * Convert scale intervals to strings.
    * Also known as reverse parsing.
@@ -1108,3 +2028,65 @@ export class Scale {
     return result;
   }
 }
+
+/**
+ * Find the moment-of-symmetry scales produced by stacking a generator against a period.
+ * @param generator The generating interval such as a fifth.
+ * @param period The period of repetition such as an octave.
+ * @param maxSize Maximum number of notes per period to consider.
+ * @param numPeriods Number of periods per equave.
+ * @returns Step signatures like `'5L 2s'` in order of increasing size counted per equave.
+ */
+export function mosSignatures(
+  generator: Interval,
+  period: Interval,
+  maxSize = 100,
+  numPeriods = 1
+) {
+  const periodCents = period.totalCents();
+  const generatorCents = mmod(generator.totalCents(), periodCents);
+  const epsilon = 1e-9 * Math.abs(periodCents);
+  const result: string[] = [];
+  if (generatorCents < epsilon || periodCents - generatorCents < epsilon) {
+    return result;
+  }
+  const degrees = [0];
+  for (let size = 2; size <= maxSize; ++size) {
+    degrees.push(mmod(generatorCents * (size - 1), periodCents));
+    const sorted = [...degrees].sort((a, b) => a - b);
+    sorted.push(periodCents);
+    const stepSizes: number[] = [];
+    for (let i = 1; i < sorted.length; ++i) {
+      stepSizes.push(sorted[i] - sorted[i - 1]);
+    }
+    const large = Math.max(...stepSizes);
+    const small = Math.min(...stepSizes);
+    if (large - small < epsilon) {
+      // Equal division of the period. Further stacking only repeats degrees.
+      break;
+    }
+    // Every generic interval class must come in at most two sizes
+    let isMos = true;
+    for (let k = 1; k < size && isMos; ++k) {
+      const sizes: number[] = [];
+      for (let i = 0; i < size; ++i) {
+        const j = i + k;
+        const interval =
+          j < size
+            ? sorted[j] - sorted[i]
+            : sorted[j - size] + periodCents - sorted[i];
+        if (sizes.every(other => Math.abs(other - interval) >= epsilon)) {
+          sizes.push(interval);
+        }
+      }
+      isMos = sizes.length <= 2;
+    }
+    if (isMos) {
+      const numLarge = stepSizes.filter(s => large - s < epsilon).length;
+      result.push(
+        `${numLarge * numPeriods}L ${(size - numLarge) * numPeriods}s`
+      );
+    }
+  }
+  return result;
+}
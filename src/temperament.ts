@@ -0,0 +1,519 @@
+import {
+  Fraction,
+  gcd,
+  kCombinations,
+  lcm,
+  primeLimit,
+  PRIME_CENTS,
+} from 'xen-dev-utils';
+import {BigFraction} from './big-fraction';
+import {ExtendedMonzo, FractionalMonzo, Val} from './monzo';
+import {Interval} from './interval';
+
+// Threshold for considering floating point pivots zero
+const EPSILON = 1e-12;
+
+/**
+ * Bring a matrix to reduced row echelon form.
+ * @param matrix Rows of the matrix. Not modified.
+ * @returns The reduced rows and the column indices of the pivots.
+ */
+function reducedRowEchelon(matrix: Fraction[][]) {
+  const rows = matrix.map(row => [...row]);
+  const pivots: number[] = [];
+  const width = rows.length ? rows[0].length : 0;
+  for (let column = 0; column < width; ++column) {
+    const pivotRow = pivots.length;
+    const index = rows.findIndex(
+      (row, i) => i >= pivotRow && !row[column].equals(0)
+    );
+    if (index < 0) {
+      continue;
+    }
+    [rows[pivotRow], rows[index]] = [rows[index], rows[pivotRow]];
+    const pivot = rows[pivotRow][column];
+    rows[pivotRow] = rows[pivotRow].map(value => value.div(pivot));
+    rows.forEach((row, i) => {
+      if (i === pivotRow || row[column].equals(0)) {
+        return;
+      }
+      const factor = row[column];
+      rows[i] = row.map((value, j) => value.sub(factor.mul(rows[pivotRow][j])));
+    });
+    pivots.push(column);
+  }
+  return {rows: rows.slice(0, pivots.length), pivots};
+}
+
+/**
+ * Calculate a basis for the null space of a matrix.
+ * @param matrix Rows of the matrix.
+ * @param width Number of columns in the matrix.
+ * @returns Vectors orthogonal to every row of the matrix. One for each column without a pivot.
+ */
+function nullSpace(matrix: Fraction[][], width: number) {
+  const {rows, pivots} = reducedRowEchelon(matrix);
+  const result: Fraction[][] = [];
+  for (let free = 0; free < width; ++free) {
+    if (pivots.includes(free)) {
+      continue;
+    }
+    const vector = [...Array(width)].map(
+      (_, i) => new Fraction(i === free ? 1 : 0)
+    );
+    pivots.forEach((pivot, i) => {
+      vector[pivot] = rows[i][free].neg();
+    });
+    result.push(vector);
+  }
+  return result;
+}
+
+/**
+ * Scale a rational vector to coprime integers.
+ * @param vector Vector to scale.
+ * @returns The vector multiplied so that its components are coprime integers with the first non-zero component positive.
+ */
+function toCoprimeIntegers(vector: Fraction[]) {
+  let denominator = 1;
+  vector.forEach(component => {
+    denominator = lcm(denominator, component.d);
+  });
+  let divisor = 0;
+  vector.forEach(component => {
+    divisor = gcd(divisor, component.mul(denominator).n);
+  });
+  const first = vector.find(component => !component.equals(0));
+  if (first === undefined) {
+    return vector;
+  }
+  const scalar = new Fraction(denominator * first.s, divisor);
+  return vector.map(component => component.mul(scalar));
+}
+
+/**
+ * Bring an integer matrix to Hermite normal form.
+ * @param matrix Rows of the matrix. Not modified.
+ * @returns The non-zero rows of the Hermite normal form spanning the same lattice as the original rows.
+ */
+function hermiteNormalForm(matrix: number[][]) {
+  const rows = matrix.map(row => [...row]);
+  const width = rows.length ? rows[0].length : 0;
+  let pivotRow = 0;
+  for (let column = 0; column < width && pivotRow < rows.length; ++column) {
+    // Euclid's algorithm on the rows to clear the column below the pivot
+    for (let i = pivotRow + 1; i < rows.length; ++i) {
+      while (rows[i][column]) {
+        const quotient = Math.floor(rows[pivotRow][column] / rows[i][column]);
+        rows[pivotRow] = rows[pivotRow].map(
+          (value, j) => value - quotient * rows[i][j]
+        );
+        [rows[pivotRow], rows[i]] = [rows[i], rows[pivotRow]];
+      }
+    }
+    if (!rows[pivotRow][column]) {
+      continue;
+    }
+    if (rows[pivotRow][column] < 0) {
+      rows[pivotRow] = rows[pivotRow].map(value => -value);
+    }
+    // Reduce the entries above the pivot
+    const pivot = rows[pivotRow][column];
+    for (let i = 0; i < pivotRow; ++i) {
+      const quotient = Math.floor(rows[i][column] / pivot);
+      rows[i] = rows[i].map((value, j) => value - quotient * rows[pivotRow][j]);
+    }
+    pivotRow++;
+  }
+  return rows.slice(0, pivotRow);
+}
+
+/**
+ * Solve a system of linear equations using Gaussian elimination with partial pivoting.
+ * @param matrix Coefficients of the system. Not modified.
+ * @param vector Right hand side of the system.
+ * @returns The solution or `null` if the system is singular.
+ */
+function solveLinear(matrix: number[][], vector: number[]) {
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+  const size = rows.length;
+  for (let column = 0; column < size; ++column) {
+    let index = column;
+    for (let i = column + 1; i < size; ++i) {
+      if (Math.abs(rows[i][column]) > Math.abs(rows[index][column])) {
+        index = i;
+      }
+    }
+    if (Math.abs(rows[index][column]) < EPSILON) {
+      return null;
+    }
+    [rows[column], rows[index]] = [rows[index], rows[column]];
+    for (let i = 0; i < size; ++i) {
+      if (i === column) {
+        continue;
+      }
+      const factor = rows[i][column] / rows[column][column];
+      rows[i] = rows[i].map((value, j) => value - factor * rows[column][j]);
+    }
+  }
+  return rows.map((row, i) => row[size] / row[i]);
+}
+
+/**
+ * Obtain the prime exponents of an extended monzo.
+ * @param monzo Extended monzo to convert.
+ * @param numberOfComponents Number of primes to include.
+ * @returns The vector part combined with the factorization of the residual.
+ * @throws An error if the extended monzo has a cents offset or lies outside of the prime limit.
+ */
+function toPrimeVector(
+  monzo: ExtendedMonzo,
+  numberOfComponents: number
+): FractionalMonzo {
+  if (monzo.cents) {
+    throw new Error('Cannot temper monzo with offset');
+  }
+  if (monzo.residual.equals(0)) {
+    throw new Error('Cannot temper zero');
+  }
+  const [residualVector, residual] = BigFraction.from(
+    monzo.residual
+  ).toMonzoAndResidual(numberOfComponents);
+  if (!residual.equals(1)) {
+    throw new Error('Monzo outside of the prime limit of the temperament');
+  }
+  const result = residualVector.map(component => new Fraction(component));
+  monzo.vector.forEach((component, i) => {
+    if (i < numberOfComponents) {
+      result[i] = result[i].add(component);
+    } else if (!component.equals(0)) {
+      throw new Error('Monzo outside of the prime limit of the temperament');
+    }
+  });
+  return result;
+}
+
+/**
+ * Convert vals to a matrix of numbers.
+ * @param mapping Vals to convert.
+ * @returns Rows of step counts. One for each val.
+ */
+function toMatrix(mapping: Val[]) {
+  return mapping.map(val => val.vector.map(count => count.valueOf()));
+}
+
+/**
+ * Regular temperament defined by a mapping of primes to generators.
+ *
+ * Used to temper out commas like 81/80 so that consistent chords of just intonation stay consistent after tempering.
+ */
+export class Temperament {
+  mapping: Val[];
+
+  /**
+   * Construct a regular temperament. Vals are reduced to a canonical form and redundant vals are removed.
+   * @param mapping Vals mapping primes to counts of each generator.
+   */
+  constructor(mapping: Val[]) {
+    const numberOfComponents = Math.max(
+      0,
+      ...mapping.map(val => val.numberOfComponents)
+    );
+    const rows = mapping.map(val => {
+      const row = [...val.vector];
+      while (row.length < numberOfComponents) {
+        row.push(new Fraction(0));
+      }
+      return toCoprimeIntegers(row).map(component => component.valueOf());
+    });
+    this.mapping = hermiteNormalForm(rows).map(row => Val.fromArray(row));
+  }
+
+  /**
+   * Construct a regular temperament that tempers out the given commas.
+   * @param commas Commas to temper out.
+   * @param numberOfComponents Number of primes in the temperament i.e. the prime limit as an ordinal. Defaults to the prime limit of the commas.
+   * @returns A temperament whose mapping sends every comma to zero.
+   * @throws An error if a comma is not a just intonation interval.
+   */
+  static fromCommas(commas: ExtendedMonzo[], numberOfComponents?: number) {
+    if (numberOfComponents === undefined) {
+      numberOfComponents = 0;
+      commas.forEach(comma => {
+        const limit = primeLimit(comma.toFraction(), true);
+        if (!isFinite(limit)) {
+          throw new Error('Comma too complex');
+        }
+        numberOfComponents = Math.max(numberOfComponents!, limit);
+      });
+    }
+    const mapping = nullSpace(
+      commas.map(comma => toPrimeVector(comma, numberOfComponents!)),
+      numberOfComponents
+    ).map(vector => new Val(vector));
+    return new Temperament(mapping);
+  }
+
+  /**
+   * Number of generators in the temperament.
+   */
+  get rank() {
+    return this.mapping.length;
+  }
+
+  /**
+   * Number of primes mapped by the temperament.
+   */
+  get numberOfComponents() {
+    return this.mapping.length ? this.mapping[0].numberOfComponents : 0;
+  }
+
+  /**
+   * Obtain a basis for the commas tempered out by the temperament.
+   * @returns Commas as integer monzos.
+   */
+  getCommas() {
+    return nullSpace(
+      this.mapping.map(val => val.vector),
+      this.numberOfComponents
+    ).map(vector => new ExtendedMonzo(toCoprimeIntegers(vector)));
+  }
+
+  /**
+   * Count the generators in an interval.
+   * @param monzo Extended monzo to map.
+   * @returns The number of each generator as fractions.
+   * @throws An error if the extended monzo has a cents offset or lies outside of the prime limit of the temperament.
+   */
+  map(monzo: ExtendedMonzo) {
+    return this.mapping.map(val => val.map(monzo));
+  }
+
+  /**
+   * Calculate the generators of the temperament tuned so that the given intervals are pure.
+   * @param eigenmonzos Just intonation intervals to keep pure. Completed with primes in increasing order if fewer than the rank are given.
+   * @returns Generators as exact fractional monzos.
+   * @throws An error if the intervals are not independent in the temperament.
+   */
+  getGenerators(eigenmonzos: ExtendedMonzo[] = []) {
+    const numberOfComponents = this.numberOfComponents;
+    const vectors = eigenmonzos.map(monzo =>
+      toPrimeVector(monzo, numberOfComponents)
+    );
+    const mapped = () =>
+      vectors.map(vector => this.map(new ExtendedMonzo(vector)));
+    for (let i = 0; vectors.length < this.rank; ++i) {
+      if (i >= numberOfComponents) {
+        throw new Error('Unable to complete the tuning');
+      }
+      const prime = [...Array(numberOfComponents)].map(
+        (_, j) => new Fraction(j === i ? 1 : 0)
+      );
+      vectors.push(prime);
+      if (reducedRowEchelon(mapped()).pivots.length < vectors.length) {
+        vectors.pop();
+      }
+    }
+    if (vectors.length > this.rank) {
+      throw new Error('Too many intervals to keep pure');
+    }
+    // Invert the matrix of mapped eigenmonzos
+    const augmented = mapped().map((row, i) => [
+      ...row,
+      ...vectors.map((_, j) => new Fraction(i === j ? 1 : 0)),
+    ]);
+    const {rows, pivots} = reducedRowEchelon(augmented);
+    if (pivots.length < this.rank || pivots[this.rank - 1] >= this.rank) {
+      throw new Error('Intervals to keep pure are not independent');
+    }
+    const inverse = rows.map(row => row.slice(this.rank));
+    // The eigenmonzo matrix was transposed so each row of the inverse gives a generator
+    return inverse.map(row => {
+      const vector = [...Array(numberOfComponents)].map(() => new Fraction(0));
+      row.forEach((coefficient, k) => {
+        vectors[k].forEach((component, j) => {
+          vector[j] = vector[j].add(coefficient.mul(component));
+        });
+      });
+      return new ExtendedMonzo(vector);
+    });
+  }
+
+  /**
+   * Calculate the Tenney-Euclidean (TE) tuning that minimizes the root-mean-square of the Tenney-weighted errors of the primes.
+   * @returns Sizes of the generators in cents.
+   * @throws An error if the mapping is degenerate.
+   */
+  getTETuning() {
+    return this.getCTETuning([]);
+  }
+
+  /**
+   * Calculate the pure-octave Tenney-Euclidean (POTE) tuning i.e. the TE tuning stretched to make the octave pure.
+   * @returns Sizes of the generators in cents.
+   * @throws An error if the mapping is degenerate or tempers out the octave.
+   */
+  getPOTETuning() {
+    const tuning = this.getTETuning();
+    const octave = this.mapping.reduce(
+      (total, val, i) => total + val.vector[0].valueOf() * tuning[i],
+      0
+    );
+    if (!octave) {
+      throw new Error('Unable to stretch to pure octaves');
+    }
+    return tuning.map(cents => (cents * PRIME_CENTS[0]) / octave);
+  }
+
+  /**
+   * Calculate the constrained Tenney-Euclidean (CTE) tuning i.e. the TE tuning subject to the constraint that the given intervals are pure.
+   * @param eigenmonzos Just intonation intervals to keep pure. Defaults to the octave.
+   * @returns Sizes of the generators in cents.
+   * @throws An error if the mapping is degenerate or the constraints are impossible to satisfy.
+   */
+  getCTETuning(eigenmonzos?: ExtendedMonzo[]) {
+    const numberOfComponents = this.numberOfComponents;
+    if (eigenmonzos === undefined) {
+      eigenmonzos = [ExtendedMonzo.fromFraction(2, numberOfComponents)];
+    }
+    const matrix = toMatrix(this.mapping);
+    const rank = this.rank;
+    // Tenney-weighted mapping. The weighted just tuning map is 1200 for every prime.
+    const weighted = matrix.map(row =>
+      row.map((count, j) => (count * 1200) / PRIME_CENTS[j])
+    );
+    const constraints = eigenmonzos.map(monzo => {
+      const vector = toPrimeVector(monzo, numberOfComponents).map(component =>
+        component.valueOf()
+      );
+      const mapped = matrix.map(row =>
+        row.reduce((total, count, j) => total + count * vector[j], 0)
+      );
+      const cents = vector.reduce(
+        (total, component, j) => total + component * PRIME_CENTS[j],
+        0
+      );
+      return {mapped, cents};
+    });
+    // Normal equations of the least squares problem with Lagrange multipliers for the constraints
+    const size = rank + constraints.length;
+    const system = [...Array(size)].map(() => Array(size).fill(0));
+    const vector = Array(size).fill(0);
+    for (let i = 0; i < rank; ++i) {
+      for (let j = 0; j < rank; ++j) {
+        system[i][j] = weighted[i].reduce(
+          (total, value, k) => total + value * weighted[j][k],
+          0
+        );
+      }
+      vector[i] = weighted[i].reduce((total, value) => total + value * 1200, 0);
+    }
+    constraints.forEach(({mapped, cents}, k) => {
+      for (let i = 0; i < rank; ++i) {
+        system[rank + k][i] = mapped[i];
+        system[i][rank + k] = mapped[i];
+      }
+      vector[rank + k] = cents;
+    });
+    const solution = solveLinear(system, vector);
+    if (solution === null) {
+      throw new Error('Unable to solve for the tuning');
+    }
+    return solution.slice(0, rank);
+  }
+
+  /**
+   * Calculate the Tenney OPtimal (TOP) tuning that minimizes the maximum Tenney-weighted error of the primes.
+   * Ties are broken deterministically in favor of the first optimum found.
+   * @returns Sizes of the generators in cents.
+   * @throws An error if the mapping is degenerate.
+   */
+  getTOPTuning() {
+    const matrix = toMatrix(this.mapping);
+    const rank = this.rank;
+    const primes = [...Array(this.numberOfComponents).keys()];
+    const weightedError = (tuning: number[], j: number) =>
+      (matrix.reduce((total, row, i) => total + row[j] * tuning[i], 0) -
+        PRIME_CENTS[j]) /
+      (PRIME_CENTS[j] / 1200);
+
+    // The optimum lies on a vertex where rank + 1 of the weighted errors are equal in magnitude
+    let best: number[] | undefined;
+    let bestError = Infinity;
+    const candidates =
+      rank < primes.length ? kCombinations(primes, rank + 1) : [primes];
+    candidates.forEach(active => {
+      for (let signs = 0; signs < 1 << active.length; ++signs) {
+        // Unknowns are the generators followed by the maximum error
+        const system = active.map((j, k) => [
+          ...matrix.map(row => row[j] / (PRIME_CENTS[j] / 1200)),
+          signs & (1 << k) ? 1 : -1,
+        ]);
+        const vector = active.map(() => 1200);
+        if (rank >= primes.length) {
+          // Just intonation: every error is zero
+          system.forEach(row => row.pop());
+        }
+        const solution = solveLinear(system, vector);
+        if (solution === null) {
+          continue;
+        }
+        const tuning = solution.slice(0, rank);
+        const error = Math.max(
+          ...primes.map(j => Math.abs(weightedError(tuning, j)))
+        );
+        if (error < bestError - EPSILON) {
+          best = tuning;
+          bestError = error;
+        }
+      }
+    });
+    if (best === undefined) {
+      throw new Error('Unable to solve for the tuning');
+    }
+    return best;
+  }
+
+  /**
+   * Convert generator sizes of a rank-2 temperament to the inputs of {@link Scale.fromRank2}.
+   * @param tuning Sizes of the generators in cents e.g. from {@link Temperament.getTETuning}.
+   * @param numberOfComponents Number of components in monzo vector parts.
+   * @returns The generator, the period and the number of periods per octave.
+   * @throws An error if the temperament is not of rank two.
+   */
+  toRank2(tuning: number[], numberOfComponents: number) {
+    if (this.rank !== 2) {
+      throw new Error('Temperament must be of rank two');
+    }
+    // The Hermite normal form maps the octave to periods only
+    return {
+      generator: new Interval(
+        ExtendedMonzo.fromCents(tuning[1], numberOfComponents),
+        'cents'
+      ),
+      period: new Interval(
+        ExtendedMonzo.fromCents(tuning[0], numberOfComponents),
+        'cents'
+      ),
+      numPeriods: this.mapping[0].vector[0].valueOf(),
+    };
+  }
+
+  /**
+   * Temper an interval.
+   * @param monzo Extended monzo to temper.
+   * @param generators Tuning of the generators. Defaults to keeping primes pure in increasing order.
+   * @returns The tempered extended monzo with the same number of components as the original.
+   * @throws An error if the extended monzo has a cents offset or lies outside of the prime limit of the temperament.
+   */
+  temper(monzo: ExtendedMonzo, generators?: ExtendedMonzo[]) {
+    if (generators === undefined) {
+      generators = this.getGenerators();
+    }
+    let result = new ExtendedMonzo([]);
+    this.map(monzo).forEach((count, i) => {
+      result = result.add(generators![i].mul(count));
+    });
+    return result.withComponents(monzo.numberOfComponents);
+  }
+}
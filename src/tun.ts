@@ -0,0 +1,284 @@
+import {frequencyToCentOffset, centOffsetToFrequency} from 'xen-dev-utils';
+import {ExtendedMonzo} from './monzo';
+import {Interval} from './interval';
+import {Scale} from './scale';
+
+/** Frequency of MIDI key 0 used as the reference of absolute cents in .tun files. */
+export const TUN_BASE_FREQUENCY = 8.1757989156;
+
+/** Number of keys in the MIDI standard. */
+const NUMBER_OF_KEYS = 128;
+
+/** Contents of an AnaMark .tun file. */
+export type AnaMarkTun = {
+  /** Name of the tuning. Empty if the file doesn't specify one. */
+  name: string;
+  /** The musical scale defined by the file. */
+  scale: Scale;
+  /** MIDI key of the first degree of the scale. */
+  baseMidiNote: number;
+};
+
+/** Key-value pairs of a section in a .tun file. */
+type Section = [string, string][];
+
+/**
+ * Obtain the last value associated with a key in a section.
+ * @param section Section to search.
+ * @param key Key to search for.
+ * @returns The value or `undefined` if the section or the key is missing.
+ */
+function getValue(section: Section | undefined, key: string) {
+  let result: string | undefined;
+  section?.forEach(([k, value]) => {
+    if (k === key) {
+      result = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * Format a cents value for the [Exact Tuning] section.
+ * @param cents Cents value to format.
+ * @returns Cents with six digits after the decimal point.
+ */
+function formatCents(cents: number) {
+  return cents.toFixed(6);
+}
+
+/**
+ * Convert a scale to the contents of an AnaMark .tun file.
+ * Version 1 files only contain the [Tuning] and [Exact Tuning] sections with the absolute tuning of all 128 keys.
+ * Version 2 files also contain a [Functional Tuning] section describing the scale degrees and the equave.
+ * @param scale {@link Scale} instance to be converted.
+ * @param baseMidiNote MIDI key of the first degree of the scale tuned to the base frequency of the scale.
+ * @param name Name of the tuning.
+ * @param version Version of the file format.
+ * @returns The scale formatted as a .tun file.
+ */
+export function reverseParseAnaMarkTun(
+  scale: Scale,
+  baseMidiNote = 69,
+  name = '',
+  version: 1 | 2 = 2
+) {
+  const cents = scale
+    .getFrequencyRange(-baseMidiNote, NUMBER_OF_KEYS - baseMidiNote)
+    .map(frequency => frequencyToCentOffset(frequency, TUN_BASE_FREQUENCY));
+
+  const lines: string[] = [];
+  if (version === 2) {
+    lines.push(
+      '[Scale Begin]',
+      'Format= "AnaMark-TUN"',
+      'FormatVersion= 200',
+      'FormatSpecs= "http://www.mark-henning.de/eternity/tuningspecs.html"',
+      '',
+      '[Info]',
+      `Name= "${name.replace(/"/g, "'")}"`,
+      ''
+    );
+  }
+  lines.push('[Tuning]');
+  cents.forEach((c, key) => lines.push(`note ${key}=${Math.round(c)}`));
+  lines.push('', '[Exact Tuning]', `BaseFreq=${TUN_BASE_FREQUENCY}`);
+  cents.forEach((c, key) => lines.push(`note ${key}=${formatCents(c)}`));
+  if (version === 2) {
+    lines.push('', '[Functional Tuning]');
+    for (let i = 1; i < scale.size; ++i) {
+      const c = formatCents(scale.intervals[i].totalCents());
+      lines.push(`note ${i}="#>-${i} % ${c}"`);
+    }
+    const equaveCents = formatCents(scale.equave.totalCents());
+    lines.push(`note ${scale.size}="#>-${scale.size} % ${equaveCents} ~999"`);
+    lines.push(
+      `note ${baseMidiNote}="! ${formatCents(scale.baseFrequency)}"`,
+      '',
+      '[Scale End]'
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Split the contents of a .tun file into sections of key-value pairs.
+ * Section names and keys are converted to lower case and quotes are removed from values.
+ * Keys may repeat within a section.
+ * @param input Contents of a .tun file.
+ * @returns A map from section names to arrays of keys and values.
+ */
+function parseSections(input: string) {
+  const sections = new Map<string, Section>();
+  let section: Section | undefined;
+  input.split(/\r?\n/).forEach(line => {
+    line = line.trim();
+    if (!line.length || line.startsWith(';')) {
+      return;
+    }
+    if (line.startsWith('[') && line.endsWith(']')) {
+      section = [];
+      sections.set(line.slice(1, -1).trim().toLowerCase(), section);
+      return;
+    }
+    const index = line.indexOf('=');
+    if (index < 0 || section === undefined) {
+      throw new Error(`Invalid line '${line}'`);
+    }
+    const key = line.slice(0, index).trim().toLowerCase().replace(/\s+/g, ' ');
+    const value = line
+      .slice(index + 1)
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+    section.push([key, value]);
+  });
+  return sections;
+}
+
+/**
+ * Obtain the absolute tunings of the 128 keys from the [Exact Tuning] and [Tuning] sections.
+ * @param sections Sections of the .tun file.
+ * @returns Frequencies of the 128 MIDI keys in Hz.
+ * @throws An error if a tuning cannot be parsed.
+ */
+function getAbsoluteFrequencies(sections: Map<string, Section>) {
+  const exact = sections.get('exact tuning');
+  const quantized = sections.get('tuning');
+  let baseFrequency = TUN_BASE_FREQUENCY;
+  const baseFreq = getValue(exact, 'basefreq');
+  if (baseFreq !== undefined) {
+    baseFrequency = parseFloat(baseFreq);
+  }
+  const result: number[] = [];
+  for (let key = 0; key < NUMBER_OF_KEYS; ++key) {
+    const value =
+      getValue(exact, `note ${key}`) ?? getValue(quantized, `note ${key}`);
+    // Missing notes default to 12-tone equal temperament
+    const cents = value === undefined ? key * 100 : parseFloat(value);
+    if (isNaN(cents)) {
+      throw new Error(`Invalid tuning of note ${key}`);
+    }
+    result.push(centOffsetToFrequency(cents, baseFrequency));
+  }
+  return result;
+}
+
+/**
+ * Reconstruct a scale from the [Functional Tuning] section of a .tun file.
+ * @param section Key-value pairs of the section.
+ * @param frequencies Absolute frequencies of the keys used if the section doesn't specify a reference frequency.
+ * @param numberOfComponents Number of components in monzo vector parts.
+ * @returns The scale with degrees measured in cents and the MIDI key of its first degree.
+ */
+function parseFunctionalTuning(
+  section: Section,
+  frequencies: number[],
+  numberOfComponents: number
+) {
+  const cents = new Map<number, number>([[0, 0]]);
+  const references = new Map<number, [number, number]>();
+  let equaveIndex: number | undefined;
+  let baseMidiNote = 0;
+  let baseFrequency: number | undefined;
+  section.forEach(([key, value]) => {
+    const match = key.match(/^note (\d+)$/);
+    if (match === null) {
+      return;
+    }
+    const index = parseInt(match[1]);
+    const absolute = value.match(/^!\s*([\d.]+)/);
+    if (absolute !== null) {
+      baseMidiNote = index;
+      baseFrequency = parseFloat(absolute[1]);
+      return;
+    }
+    const relative = value.match(/#([<>=])\s*([+-]?\d+)\s*%\s*([+-]?[\d.]+)/);
+    if (relative === null) {
+      throw new Error(`Unsupported functional tuning '${value}'`);
+    }
+    const offset = parseInt(relative[2]);
+    const reference = relative[1] === '=' ? offset : index + offset;
+    references.set(index, [reference, parseFloat(relative[3])]);
+    if (value.includes('~')) {
+      equaveIndex = index;
+    }
+  });
+  if (equaveIndex === undefined) {
+    throw new Error('Functional tuning must loop at the equave');
+  }
+
+  function resolve(index: number, depth = 0): number {
+    if (cents.has(index)) {
+      return cents.get(index)!;
+    }
+    const entry = references.get(index);
+    if (entry === undefined || depth > NUMBER_OF_KEYS) {
+      throw new Error(`Unable to resolve note ${index}`);
+    }
+    const result = resolve(entry[0], depth + 1) + entry[1];
+    cents.set(index, result);
+    return result;
+  }
+
+  const intervals: Interval[] = [];
+  for (let i = 0; i <= equaveIndex; ++i) {
+    intervals.push(
+      new Interval(
+        ExtendedMonzo.fromCents(resolve(i), numberOfComponents),
+        'cents'
+      )
+    );
+  }
+  const equave = intervals.pop()!;
+  return {
+    scale: new Scale(
+      intervals,
+      equave,
+      baseFrequency ?? frequencies[baseMidiNote]
+    ),
+    baseMidiNote,
+  };
+}
+
+/**
+ * Parse the contents of an AnaMark .tun file (version 1 or 2) into a {@link Scale} instance.
+ * The scale is reconstructed from the [Functional Tuning] section if present.
+ * Otherwise the absolute tunings of the 128 keys are used as the degrees of the scale starting from MIDI key 0
+ * and the interval between keys 0 and 127 is used as the equave.
+ * @param input Contents of a .tun file.
+ * @param numberOfComponents Number of components in monzo vector parts.
+ * @returns The name, scale and the MIDI key of the first degree of the scale.
+ * @throws An error if the file is malformed.
+ */
+export function parseAnaMarkTun(
+  input: string,
+  numberOfComponents: number
+): AnaMarkTun {
+  const sections = parseSections(input);
+  const name = getValue(sections.get('info'), 'name') ?? '';
+  const frequencies = getAbsoluteFrequencies(sections);
+  const functional = sections.get('functional tuning');
+  if (functional !== undefined && functional.length) {
+    return {
+      name,
+      ...parseFunctionalTuning(functional, frequencies, numberOfComponents),
+    };
+  }
+  const intervals = frequencies
+    .slice(1)
+    .map(
+      frequency =>
+        new Interval(
+          ExtendedMonzo.fromCents(
+            frequencyToCentOffset(frequency, frequencies[0]),
+            numberOfComponents
+          ),
+          'cents'
+        )
+    );
+  return {
+    name,
+    scale: Scale.fromIntervalArray(intervals, frequencies[0]),
+    baseMidiNote: 0,
+  };
+}
@@ -1,4 +1,19 @@
 import {Fraction} from 'xen-dev-utils';
+import {BigFraction} from './big-fraction';
+
+/** Version of the schema used when converting objects to JSON. */
+export const JSON_SCHEMA_VERSION = 1;
+
+/**
+ * Verify that serialized data uses a supported schema version.
+ * @param version Schema version of the serialized data.
+ * @throws An error if the schema version is not supported.
+ */
+export function checkSchemaVersion(version: number) {
+  if (version !== JSON_SCHEMA_VERSION) {
+    throw new Error(`Unsupported schema version ${version}`);
+  }
+}
 
 /**
  * Convert fraction to a string.
@@ -8,10 +23,16 @@ import {Fraction} from 'xen-dev-utils';
  * @returns The fraction formatted as a string.
  */
 export function fractionToString(
-  fraction: Fraction,
+  fraction: Fraction | BigFraction,
   preferredNumerator?: number,
   preferredDenominator?: number
 ) {
+  if (fraction instanceof BigFraction) {
+    if (!fraction.isSafe()) {
+      return `${fraction.n}/${fraction.d}`;
+    }
+    fraction = fraction.toFraction();
+  }
   const numerator = fraction.n * fraction.s;
   if (preferredNumerator === undefined) {
     if (
@@ -53,3 +74,50 @@ export function stringToNumeratorDenominator(input: string): [number, number] {
   const [numerator, denominator] = input.split('/');
   return [parseInt(numerator), parseInt(denominator)];
 }
+
+/** Source of uniformly distributed random numbers in the range [0, 1). */
+export type RandomSource = () => number;
+
+/** Shape of the distribution of random offsets. */
+export type Distribution = 'uniform' | 'triangular' | 'gaussian';
+
+/**
+ * Create a reproducible source of random numbers.
+ * Uses the Mulberry32 generator.
+ * @param seed Integer seed. Equal seeds produce equal sequences.
+ * @returns Function that returns a new pseudo-random number in the range [0, 1) on each call.
+ */
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a random offset centered around zero.
+ * @param amount Maximum offset for the uniform and triangular distributions. Standard deviation for the gaussian distribution.
+ * @param distribution Shape of the distribution.
+ * @param random Source of uniformly distributed random numbers.
+ * @returns Random offset.
+ */
+export function randomOffset(
+  amount: number,
+  distribution: Distribution = 'uniform',
+  random: RandomSource = Math.random
+) {
+  if (distribution === 'triangular') {
+    return (random() - random()) * amount;
+  }
+  if (distribution === 'gaussian') {
+    // Box-Muller transform
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v) * amount;
+  }
+  return (random() * 2 - 1) * amount;
+}